@@ -2,10 +2,12 @@
 import { defineConfig } from 'astro/config';
 import react from '@astrojs/react';
 import AstroPWA from '@vite-pwa/astro';
+import validateData from './src/integrations/validate-data';
 
 // https://astro.build/config
 export default defineConfig({
   integrations: [
+    validateData(),
     react(),
     AstroPWA({
       registerType: 'autoUpdate',
@@ -13,7 +15,12 @@ export default defineConfig({
       manifest: false, // Ya tenés manifest.json propio
       workbox: {
         globPatterns: ['**/*.{css,js,html,svg,png,ico,webp,woff2,woff,json}'],
+        // Páginas de artistas y API JSON: son para buscadores y otros
+        // proyectos, no hace falta tenerlas offline
+        globIgnores: ['artista/**', 'api/**'],
         navigateFallback: null,
+        // Recordatorios de shows (notificaciones, ver src/lib/reminders.ts)
+        importScripts: ['/sw-reminders.js'],
         runtimeCaching: [
           {
             urlPattern: /^https:\/\/fonts\.googleapis\.com\/.*/i,
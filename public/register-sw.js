@@ -126,6 +126,21 @@
     }, 10000);
   }
 
+  /**
+   * Al volver a la app, pedirle al SW que muestre los recordatorios de
+   * shows que vencieron mientras estaba en segundo plano.
+   */
+  document.addEventListener('visibilitychange', function () {
+    if (
+      document.visibilityState === 'visible' &&
+      navigator.serviceWorker.controller
+    ) {
+      navigator.serviceWorker.controller.postMessage({
+        type: 'CHECK_REMINDERS',
+      });
+    }
+  });
+
   /**
    * Detectar cuando el usuario vuelve online y podría querer refrescar.
    */
@@ -0,0 +1,104 @@
+/**
+ * Recordatorios de shows para el Service Worker
+ * Lo importan tanto public/sw.js como el SW que genera Workbox en la build
+ * (ver `importScripts` en astro.config.mjs).
+ *
+ * La app manda la lista de recordatorios (ver src/lib/reminders.ts) y acá
+ * se guarda en Cache Storage, para que sobreviva a que el navegador cierre
+ * el SW. Los pendientes se revisan cuando:
+ * - la app manda CHECK_REMINDERS (al abrirla y cada minuto mientras está abierta)
+ * - llega un Periodic Background Sync (PWA instalada en Chromium)
+ * Con Notification Triggers la app agenda todo por su cuenta y esta lista queda vacía.
+ */
+
+const REMINDERS_CACHE = 'show-reminders';
+const REMINDERS_KEY = '/__show-reminders.json';
+
+// Recordatorios de shows que ya empezaron hace más de esto se descartan
+const REMINDER_GRACE_MS = 5 * 60 * 1000;
+
+async function loadReminders() {
+  const cache = await caches.open(REMINDERS_CACHE);
+  const response = await cache.match(REMINDERS_KEY);
+  return response ? response.json() : [];
+}
+
+async function saveReminders(reminders) {
+  const cache = await caches.open(REMINDERS_CACHE);
+  await cache.put(
+    REMINDERS_KEY,
+    new Response(JSON.stringify(reminders), {
+      headers: { 'Content-Type': 'application/json' },
+    })
+  );
+}
+
+/**
+ * Muestra los recordatorios que ya llegaron a su hora y guarda el resto.
+ */
+async function checkReminders() {
+  const now = Date.now();
+  const reminders = await loadReminders();
+  const due = reminders.filter((r) => r.at <= now);
+  if (due.length === 0) return;
+
+  for (const reminder of due) {
+    if (reminder.startsAt + REMINDER_GRACE_MS < now) continue;
+    await self.registration.showNotification(reminder.title, {
+      body: reminder.body,
+      tag: reminder.tag,
+      icon: '/web-app-manifest-192x192.png',
+      data: { url: reminder.url },
+    });
+  }
+
+  await saveReminders(reminders.filter((r) => r.at > now));
+}
+
+self.addEventListener('message', (event) => {
+  const data = event.data;
+  if (!data || typeof data !== 'object') return;
+
+  if (data.type === 'SET_REMINDERS') {
+    event.waitUntil(
+      saveReminders(data.reminders || []).then(() => checkReminders())
+    );
+  }
+
+  if (data.type === 'CHECK_REMINDERS') {
+    event.waitUntil(checkReminders());
+  }
+});
+
+self.addEventListener('periodicsync', (event) => {
+  if (event.tag === 'check-reminders') {
+    event.waitUntil(checkReminders());
+  }
+});
+
+/**
+ * Al tocar un recordatorio: abrir la app en el show (param `show`),
+ * reutilizando una pestaña abierta si la hay.
+ */
+self.addEventListener('notificationclick', (event) => {
+  const url = event.notification.data && event.notification.data.url;
+  if (!url || !event.notification.tag.startsWith('show-reminder-')) return;
+  event.notification.close();
+
+  event.waitUntil(
+    self.clients
+      .matchAll({ type: 'window', includeUncontrolled: true })
+      .then((windows) => {
+        const client = windows.find(
+          (c) => new URL(c.url).origin === self.location.origin
+        );
+        if (!client) return self.clients.openWindow(url);
+        // navigate() falla en pestañas que este SW no controla (las
+        // trae includeUncontrolled): en ese caso se abre una nueva
+        return client
+          .navigate(url)
+          .then((c) => (c || client).focus())
+          .catch(() => self.clients.openWindow(url));
+      })
+  );
+});
@@ -8,6 +8,8 @@
  * - Si la red responde, se actualiza el caché para la próxima vez
  */
 
+importScripts('/sw-reminders.js');
+
 const CACHE_NAME = 'cosquin-rock-v1';
 
 // Archivos críticos que siempre deben estar en caché (pre-cache)
@@ -74,7 +76,8 @@ self.addEventListener('activate', (event) => {
       .then((cacheNames) => {
         return Promise.all(
           cacheNames.map((cacheName) => {
-            if (cacheName !== CACHE_NAME) {
+            // Los recordatorios de shows no son caché (ver sw-reminders.js)
+            if (cacheName !== CACHE_NAME && cacheName !== REMINDERS_CACHE) {
               console.log('[SW] Deleting old cache:', cacheName);
               return caches.delete(cacheName);
             }
@@ -1,7 +1,21 @@
 import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
-import html2canvas from 'html2canvas';
-import type { FestivalEvent, ScheduleInfo } from '../lib/types';
-import { generateICS } from '../lib/data';
+import type {
+  Agenda,
+  AgendaImageTemplate,
+  FestivalEvent,
+  ScheduleInfo,
+} from '../lib/types';
+import { generateAppleCalendarUrl, generateICSFiles } from '../lib/ics';
+import { FESTIVAL, FESTIVAL_TITLE } from '../lib/festival';
+import { FULL_FEED_SLUG, getDayFeedSlug, getFeedWebcalUrl } from '../lib/feeds';
+import { writeAgendaParams } from '../lib/url-state';
+import {
+  getAgendaImageTemplatePreference,
+  setAgendaImageTemplatePreference,
+} from '../lib/agenda-image';
+import { renderPocketAgendaPDF } from '../lib/pocket-agenda-pdf';
+import { generateAgendaExport } from '../lib/agenda-export';
+import type { AgendaExportFormat } from '../lib/agenda-export';
 import {
   CopyIcon,
   ShareIcon,
@@ -11,13 +25,45 @@ import {
   EditIcon,
   ChevronDownIcon,
   ImageIcon,
+  BellIcon,
+  GoogleIcon,
+  FileTextIcon,
+  PrinterIcon,
+  UploadIcon,
 } from './Icons';
 import Toast from './Toast';
-import AgendaImagePreview from './AgendaImagePreview';
+import { CalendarWalkthrough } from './CalendarWalkthrough';
+import { AgendaImagePicker } from './AgendaImagePicker';
+import { PocketAgenda } from './PocketAgenda';
+import { AgendaImportDialog } from './AgendaImportDialog';
+import type { WebCalendarTarget } from './CalendarWalkthrough';
+import { useAgendaImage } from '../hooks/useAgendaImage';
 
 // ─── Types ─────────────────────────────────────────────────────────
 
 type ProcessingState = 'idle' | 'sharing' | 'downloading';
+type ImagePickerMode = 'download' | 'share';
+
+type ICSSplit = 'single' | 'day';
+
+type CalendarTarget = WebCalendarTarget | 'apple';
+
+/** Lead time of the optional alarm in exported .ics files */
+const ICS_ALARM_MINUTES = 15;
+
+/** Browsers may block a burst of downloads, so per-day files are spaced out */
+const MULTI_DOWNLOAD_DELAY_MS = 300;
+
+/** Text exports; `label` is short to leave room for the two buttons */
+const TEXT_EXPORTS: {
+  format: AgendaExportFormat;
+  label: string;
+  description: string;
+}[] = [
+  { format: 'text', label: 'WhatsApp', description: 'texto para WhatsApp' },
+  { format: 'markdown', label: 'Markdown', description: 'Markdown' },
+  { format: 'csv', label: 'CSV', description: 'CSV para planillas' },
+];
 
 interface ToastInfo {
   message: string;
@@ -32,6 +78,26 @@ function isInstagramWebView(): boolean {
   return /Instagram/i.test(ua);
 }
 
+/** Clipboard API with the execCommand fallback for in-app browsers */
+async function copyToClipboard(text: string): Promise<boolean> {
+  try {
+    await navigator.clipboard.writeText(text);
+    return true;
+  } catch {
+    try {
+      const ta = document.createElement('textarea');
+      ta.value = text;
+      document.body.appendChild(ta);
+      ta.select();
+      const copied = document.execCommand('copy');
+      document.body.removeChild(ta);
+      return copied;
+    } catch {
+      return false;
+    }
+  }
+}
+
 interface ShareMenuProps {
   isOpen: boolean;
   onToggle: () => void;
@@ -46,17 +112,36 @@ interface ExportMenuProps {
   onToggle: () => void;
   processingState: ProcessingState;
   onExportImage: () => void;
-  onExportICS: () => void;
+  onExportPDF: () => void;
+  onPrint: () => void;
+  onExportICS: (split: ICSSplit) => void;
+  onCopyText: (format: AgendaExportFormat) => void;
+  onDownloadText: (format: AgendaExportFormat) => void;
+  /** Format just copied, to show the check mark */
+  copiedFormat: AgendaExportFormat | null;
+  onAddToCalendar: (target: CalendarTarget) => void;
+  /** Days with selected shows; per-day files only make sense with 2+ */
+  dayCount: number;
+  icsAlarm: boolean;
+  onToggleICSAlarm: () => void;
+  /** Festival days, for the per-day calendar subscriptions */
+  schedules: ScheduleInfo[];
+  /** Not offered when viewing someone else's agenda */
+  onImport?: () => void;
 }
 
 interface ActionPanelProps {
-  selectedIds: Set<string>;
+  /** Selected event ids and their priority tiers */
+  agenda: Agenda;
   allEvents: FestivalEvent[];
   readOnly: boolean;
   onSwitchToEdit: () => void;
   schedules: ScheduleInfo[];
   showOnlySelected: boolean;
   onToggleShowOnlySelected: () => void;
+  /** Replaces the agenda with an imported (possibly merged) one */
+  onImportAgenda: (agenda: Agenda) => void;
+  timeZone: string;
 }
 
 // ─── Sub-components ────────────────────────────────────────────────
@@ -109,7 +194,18 @@ function ExportMenuButton({
   onToggle,
   processingState,
   onExportImage,
+  onExportPDF,
+  onPrint,
   onExportICS,
+  onCopyText,
+  onDownloadText,
+  copiedFormat,
+  onAddToCalendar,
+  dayCount,
+  icsAlarm,
+  onToggleICSAlarm,
+  schedules,
+  onImport,
 }: ExportMenuProps) {
   const isProcessing = processingState === 'downloading';
 
@@ -136,10 +232,118 @@ function ExportMenuButton({
             <ImageIcon />
             {isProcessing ? 'Generando...' : 'Descargar imagen'}
           </button>
-          <button onClick={onExportICS} className="menu-item">
+          <button
+            onClick={onExportPDF}
+            className="menu-item"
+            disabled={processingState !== 'idle'}
+          >
+            <FileTextIcon />
+            Descargar PDF
+          </button>
+          <button onClick={onPrint} className="menu-item">
+            <PrinterIcon />
+            Imprimir agenda de bolsillo
+          </button>
+          <div className="menu-divider" />
+          {TEXT_EXPORTS.map(({ format, label, description }) => (
+            <div key={format} className="menu-row">
+              <span className="menu-row__label">
+                <FileTextIcon />
+                {label}
+              </span>
+              <button
+                onClick={() => onCopyText(format)}
+                className="menu-row__action"
+                aria-label={`Copiar como ${description}`}
+                title="Copiar"
+              >
+                {copiedFormat === format ? (
+                  <CheckIcon size={14} />
+                ) : (
+                  <CopyIcon size={14} />
+                )}
+              </button>
+              <button
+                onClick={() => onDownloadText(format)}
+                className="menu-row__action"
+                aria-label={`Descargar como ${description}`}
+                title="Descargar"
+              >
+                <DownloadIcon size={14} />
+              </button>
+            </div>
+          ))}
+          <div className="menu-divider" />
+          <button onClick={() => onExportICS('single')} className="menu-item">
             <CalendarIcon />
             Descargar archivo ICS
           </button>
+          {dayCount > 1 && (
+            <button onClick={() => onExportICS('day')} className="menu-item">
+              <CalendarIcon />
+              Un archivo ICS por día
+            </button>
+          )}
+          <button
+            onClick={onToggleICSAlarm}
+            className="menu-item"
+            role="menuitemcheckbox"
+            aria-checked={icsAlarm}
+          >
+            <BellIcon />
+            Aviso {ICS_ALARM_MINUTES} min antes
+            {icsAlarm && <CheckIcon size={14} />}
+          </button>
+          <div className="menu-divider" />
+          <button
+            onClick={() => onAddToCalendar('google')}
+            className="menu-item"
+          >
+            <GoogleIcon />
+            Agregar a Google Calendar
+          </button>
+          <button
+            onClick={() => onAddToCalendar('outlook')}
+            className="menu-item"
+          >
+            <CalendarIcon />
+            Agregar a Outlook
+          </button>
+          <button
+            onClick={() => onAddToCalendar('apple')}
+            className="menu-item"
+          >
+            <CalendarIcon />
+            Agregar a Apple Calendar
+          </button>
+          <div className="menu-divider" />
+          <a href={getFeedWebcalUrl(FULL_FEED_SLUG)} className="menu-item">
+            <CalendarIcon />
+            Suscribirse a la grilla completa
+          </a>
+          {schedules.map((schedule) => (
+            <a
+              key={schedule.day}
+              href={getFeedWebcalUrl(getDayFeedSlug(schedule.day))}
+              className="menu-item"
+            >
+              <CalendarIcon />
+              Suscribirse al día {schedule.day}
+            </a>
+          ))}
+          <a href="/faq#suscribirse" className="menu-item">
+            <CalendarIcon />
+            Más calendarios (por escenario)
+          </a>
+          {onImport && (
+            <>
+              <div className="menu-divider" />
+              <button onClick={onImport} className="menu-item">
+                <UploadIcon />
+                Importar agenda
+              </button>
+            </>
+          )}
         </div>
       )}
     </div>
@@ -149,42 +353,58 @@ function ExportMenuButton({
 // ─── Main Component ────────────────────────────────────────────────
 
 export function ActionPanel({
-  selectedIds,
+  agenda,
   allEvents,
   readOnly,
   onSwitchToEdit,
   schedules,
   showOnlySelected,
   onToggleShowOnlySelected,
+  onImportAgenda,
+  timeZone,
 }: ActionPanelProps) {
   const [copied, setCopied] = useState(false);
   const [shareUrl, setShareUrl] = useState('');
   const [isShareMenuOpen, setIsShareMenuOpen] = useState(false);
   const [isExportMenuOpen, setIsExportMenuOpen] = useState(false);
+  const [icsAlarm, setICSAlarm] = useState(false);
+  const [walkthroughTarget, setWalkthroughTarget] =
+    useState<WebCalendarTarget | null>(null);
   const [toastInfo, setToastInfo] = useState<ToastInfo | null>(null);
   const [processingState, setProcessingState] =
     useState<ProcessingState>('idle');
+  const [imagePickerMode, setImagePickerMode] =
+    useState<ImagePickerMode | null>(null);
+  const [isPrinting, setIsPrinting] = useState(false);
+  const [isImportOpen, setIsImportOpen] = useState(false);
+  const [copiedFormat, setCopiedFormat] = useState<AgendaExportFormat | null>(
+    null
+  );
   const menuRef = useRef<HTMLDivElement>(null);
-  const agendaImageRef = useRef<HTMLDivElement>(null);
+  const renderAgendaImage = useAgendaImage();
 
   const selectedEvents = useMemo(
-    () => allEvents.filter((e) => selectedIds.has(e.id)),
-    [allEvents, selectedIds]
+    () => allEvents.filter((e) => agenda.has(e.id)),
+    [allEvents, agenda]
   );
 
-  const shareText = '¡Mirá mi agenda para el Cosquín Rock 2026! 🎸🔥';
-  const shareTitle = 'Mi agenda Cosquín Rock 2026';
+  const shareText = `¡Mirá mi agenda para el ${FESTIVAL_TITLE}! 🎸🔥`;
+  const shareTitle = `Mi agenda ${FESTIVAL_TITLE}`;
 
   // ─── Effects ───────────────────────────────────────────────────────
 
   useEffect(() => {
     if (typeof window === 'undefined') return;
     const url = new URL(window.location.href);
-    url.searchParams.set('ids', [...selectedIds].join(','));
+    writeAgendaParams(
+      url.searchParams,
+      agenda,
+      allEvents.map((e) => e.id)
+    );
     url.searchParams.set('view', 'shared');
     url.searchParams.set('filter', 'selected');
     setShareUrl(url.toString());
-  }, [selectedIds]);
+  }, [agenda, allEvents]);
 
   useEffect(() => {
     const handleClickOutside = (event: MouseEvent) => {
@@ -211,23 +431,7 @@ export function ActionPanel({
 
   const copyShareLink = useCallback(
     async ({ closeMenu = true, showToast = false } = {}) => {
-      let copiedOk = false;
-      try {
-        await navigator.clipboard.writeText(shareUrl);
-        copiedOk = true;
-      } catch {
-        try {
-          const ta = document.createElement('textarea');
-          ta.value = shareUrl;
-          document.body.appendChild(ta);
-          ta.select();
-          copiedOk = document.execCommand('copy');
-          document.body.removeChild(ta);
-        } catch {
-          copiedOk = false;
-        }
-      }
-
+      const copiedOk = await copyToClipboard(shareUrl);
       if (!copiedOk) throw new Error('copy_failed');
 
       setCopied(true);
@@ -256,52 +460,159 @@ export function ActionPanel({
     }
   }, [copyShareLink]);
 
-  const handleExportICS = useCallback(() => {
-    const ics = generateICS(selectedEvents);
-    const blob = new Blob([ics], { type: 'text/calendar;charset=utf-8' });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = 'cosquin-rock-2026.ics';
-    a.click();
-    URL.revokeObjectURL(url);
-    setIsExportMenuOpen(false);
-    setToastInfo({
-      message: 'Calendario descargado!',
-      type: 'success',
-      linkText: 'Ver cómo importarlo',
-      linkUrl: '/faq',
-    });
-  }, [selectedEvents]);
-
-  const generateAgendaImage = useCallback(async (): Promise<Blob | null> => {
-    if (!agendaImageRef.current || selectedEvents.length === 0) return null;
-
-    await new Promise((resolve) => setTimeout(resolve, 150));
-
-    const canvas = await html2canvas(agendaImageRef.current, {
-      backgroundColor: '#0a0a0f',
-      scale: 2,
-      useCORS: true,
-      logging: false,
-    });
-
-    return new Promise<Blob | null>((resolve) =>
-      canvas.toBlob((result) => resolve(result), 'image/png')
-    );
-  }, [selectedEvents]);
+  const handleExportICS = useCallback(
+    async (split: ICSSplit) => {
+      const files = generateICSFiles(selectedEvents, schedules, split, {
+        alarmMinutes: icsAlarm ? ICS_ALARM_MINUTES : null,
+      });
+      setIsExportMenuOpen(false);
+      for (const [index, file] of files.entries()) {
+        if (index > 0) {
+          await new Promise((resolve) =>
+            setTimeout(resolve, MULTI_DOWNLOAD_DELAY_MS)
+          );
+        }
+        const blob = new Blob([file.content], {
+          type: 'text/calendar;charset=utf-8',
+        });
+        const url = URL.createObjectURL(blob);
+        const a = document.createElement('a');
+        a.href = url;
+        a.download = file.filename;
+        a.click();
+        URL.revokeObjectURL(url);
+      }
+      setToastInfo({
+        message:
+          files.length > 1
+            ? `${files.length} calendarios descargados!`
+            : 'Calendario descargado!',
+        type: 'success',
+        linkText: 'Ver cómo importarlo',
+        linkUrl: '/faq',
+      });
+    },
+    [selectedEvents, schedules, icsAlarm]
+  );
+
+  const textExportInput = useMemo(
+    () => ({
+      events: selectedEvents,
+      tiers: agenda,
+      schedules,
+      timeZone,
+      shareUrl,
+    }),
+    [selectedEvents, agenda, schedules, timeZone, shareUrl]
+  );
+
+  const handleCopyText = useCallback(
+    async (format: AgendaExportFormat) => {
+      const { content } = generateAgendaExport(format, textExportInput);
+      if (await copyToClipboard(content)) {
+        // The menu stays open so the check mark confirms the copy
+        setCopiedFormat(format);
+        setTimeout(() => setCopiedFormat(null), 2000);
+      } else {
+        setIsExportMenuOpen(false);
+        setToastInfo({
+          message:
+            'No se pudo copiar. Probá descargando el archivo o abrí el sitio en Chrome o Safari.',
+          type: 'warning',
+        });
+      }
+    },
+    [textExportInput]
+  );
+
+  const handleDownloadText = useCallback(
+    (format: AgendaExportFormat) => {
+      setIsExportMenuOpen(false);
+      if (isInstagramWebView()) {
+        setToastInfo({
+          message:
+            'Instagram bloquea las descargas. Usá "Copiar" o abrí el sitio en Chrome o Safari.',
+          type: 'warning',
+        });
+        return;
+      }
+      const file = generateAgendaExport(format, textExportInput);
+      // Without a BOM, Excel reads UTF-8 CSV files as Latin-1
+      const parts =
+        format === 'csv' ? ['\uFEFF', file.content] : [file.content];
+      const url = URL.createObjectURL(new Blob(parts, { type: file.mimeType }));
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = file.filename;
+      a.click();
+      URL.revokeObjectURL(url);
+    },
+    [textExportInput]
+  );
+
+  const handleAddToCalendar = useCallback(
+    (target: CalendarTarget) => {
+      setIsExportMenuOpen(false);
+      if (target !== 'apple') {
+        setWalkthroughTarget(target);
+        return;
+      }
+      const a = document.createElement('a');
+      a.href = generateAppleCalendarUrl(selectedEvents, {
+        alarmMinutes: icsAlarm ? ICS_ALARM_MINUTES : null,
+      });
+      a.download = `${FESTIVAL.slug}.ics`;
+      a.click();
+      setToastInfo({
+        message: 'Abrí el archivo para agregar los shows a Calendario',
+        type: 'success',
+      });
+    },
+    [selectedEvents, icsAlarm]
+  );
+
+  const closeWalkthrough = useCallback(() => setWalkthroughTarget(null), []);
+
+  const chronologicalEvents = useMemo(
+    () =>
+      [...selectedEvents].sort(
+        (a, b) => a.startAt.getTime() - b.startAt.getTime()
+      ),
+    [selectedEvents]
+  );
+
+  const selectedDayCount = useMemo(
+    () => new Set(selectedEvents.map((e) => e.day)).size,
+    [selectedEvents]
+  );
+
+  const exportInput = useMemo(
+    () => ({ events: selectedEvents, tiers: agenda, schedules, timeZone }),
+    [selectedEvents, agenda, schedules, timeZone]
+  );
 
   const downloadAgendaImage = useCallback((blob: Blob) => {
     const url = URL.createObjectURL(blob);
     const link = document.createElement('a');
-    link.download = 'mi-agenda-cosquin-rock-2026.png';
+    link.download = `mi-agenda-${FESTIVAL.slug}.png`;
     link.href = url;
     link.click();
     URL.revokeObjectURL(url);
   }, []);
 
-  const handleExportImage = useCallback(async () => {
+  const openImagePicker = useCallback((mode: ImagePickerMode) => {
+    setImagePickerMode(mode);
+    setProcessingState(mode === 'download' ? 'downloading' : 'sharing');
+  }, []);
+
+  const closeImagePicker = useCallback(() => {
+    setImagePickerMode(null);
+    setProcessingState('idle');
+  }, []);
+
+  const handleExportImage = useCallback(() => {
     if (selectedEvents.length === 0) return;
+    setIsExportMenuOpen(false);
 
     if (isInstagramWebView()) {
       setToastInfo({
@@ -309,119 +620,180 @@ export function ActionPanel({
           'Instagram bloquea las descargas. Abrí el sitio en Chrome o Safari para guardar la imagen.',
         type: 'warning',
       });
-      setIsExportMenuOpen(false);
       return;
     }
 
-    setProcessingState('downloading');
-    setIsExportMenuOpen(false);
+    openImagePicker('download');
+  }, [selectedEvents, openImagePicker]);
 
-    try {
-      const blob = await generateAgendaImage();
-      if (blob) downloadAgendaImage(blob);
-    } catch (error) {
-      console.error('Error generating image:', error);
-    } finally {
-      setProcessingState('idle');
-    }
-  }, [selectedEvents, generateAgendaImage, downloadAgendaImage]);
-
-  const handleNativeShare = useCallback(async () => {
+  const handleNativeShare = useCallback(() => {
     if (selectedEvents.length === 0) return;
-
-    setProcessingState('sharing');
     setIsShareMenuOpen(false);
+    openImagePicker('share');
+  }, [selectedEvents, openImagePicker]);
 
-    try {
-      let blob: Blob | null = null;
-      try {
-        blob = await generateAgendaImage();
-      } catch (error) {
-        console.warn('Error generating image for share:', error);
-      }
-
-      if (!blob && isInstagramWebView()) {
-        setToastInfo({
-          message:
-            'Instagram bloquea la imagen. Se compartirá solo el enlace. Si falla, abrí el sitio en Chrome o Safari.',
-          type: 'warning',
-        });
-      }
-
-      if (blob) {
-        const timestamp = new Date()
-          .toISOString()
-          .replace(/[:.]/g, '-')
-          .slice(0, 19);
-        const fileName = `mi-agenda-cosquin-rock-2026-${timestamp}.png`;
-        const file = new File([blob], fileName, { type: 'image/png' });
+  /** Shares the link with the image attached when there is one */
+  const shareAgenda = useCallback(
+    async (blob: Blob | null) => {
+      setProcessingState('sharing');
 
-        const canShare =
-          'share' in navigator &&
-          (!navigator.canShare || navigator.canShare({ files: [file] }));
-
-        if (canShare) {
-          await navigator.share({
-            title: shareTitle,
-            text: shareText,
-            url: shareUrl,
-            files: [file],
+      try {
+        if (!blob && isInstagramWebView()) {
+          setToastInfo({
+            message:
+              'Instagram bloquea la imagen. Se compartirá solo el enlace. Si falla, abrí el sitio en Chrome o Safari.',
+            type: 'warning',
           });
-          return;
         }
 
-        downloadAgendaImage(blob);
-      }
-
-      await navigator.share({
-        title: shareTitle,
-        text: shareText,
-        url: shareUrl,
-      });
-    } catch (error) {
-      if (error instanceof DOMException && error.name === 'AbortError') return;
+        if (blob) {
+          const timestamp = new Date()
+            .toISOString()
+            .replace(/[:.]/g, '-')
+            .slice(0, 19);
+          const fileName = `mi-agenda-${FESTIVAL.slug}-${timestamp}.png`;
+          const file = new File([blob], fileName, { type: 'image/png' });
+
+          const canShare =
+            'share' in navigator &&
+            (!navigator.canShare || navigator.canShare({ files: [file] }));
+
+          if (canShare) {
+            await navigator.share({
+              title: shareTitle,
+              text: shareText,
+              url: shareUrl,
+              files: [file],
+            });
+            return;
+          }
+
+          downloadAgendaImage(blob);
+        }
 
-      // Plan B: share without image
-      try {
         await navigator.share({
           title: shareTitle,
           text: shareText,
           url: shareUrl,
         });
-        setToastInfo({
-          message:
-            'No se pudo adjuntar la imagen, pero se compartió el enlace.',
-          type: 'warning',
-        });
-      } catch (fallbackError) {
-        if (
-          fallbackError instanceof DOMException &&
-          fallbackError.name === 'AbortError'
-        )
+      } catch (error) {
+        if (error instanceof DOMException && error.name === 'AbortError')
           return;
-        console.error('Error sharing:', fallbackError);
+
+        // Plan B: share without image
         try {
-          await copyShareLink({ closeMenu: false, showToast: true });
-        } catch (copyError) {
-          console.error('Error copying link:', copyError);
+          await navigator.share({
+            title: shareTitle,
+            text: shareText,
+            url: shareUrl,
+          });
           setToastInfo({
             message:
-              'El navegador de Instagram no permite compartir. Abrí el sitio en Chrome o Safari.',
+              'No se pudo adjuntar la imagen, pero se compartió el enlace.',
             type: 'warning',
           });
+        } catch (fallbackError) {
+          if (
+            fallbackError instanceof DOMException &&
+            fallbackError.name === 'AbortError'
+          )
+            return;
+          console.error('Error sharing:', fallbackError);
+          try {
+            await copyShareLink({ closeMenu: false, showToast: true });
+          } catch (copyError) {
+            console.error('Error copying link:', copyError);
+            setToastInfo({
+              message:
+                'El navegador de Instagram no permite compartir. Abrí el sitio en Chrome o Safari.',
+              type: 'warning',
+            });
+          }
         }
+      } finally {
+        setProcessingState('idle');
       }
+    },
+    [downloadAgendaImage, copyShareLink, shareText, shareUrl]
+  );
+
+  const handleExportPDF = useCallback(async () => {
+    if (selectedEvents.length === 0) return;
+
+    if (isInstagramWebView()) {
+      setToastInfo({
+        message:
+          'Instagram bloquea las descargas. Abrí el sitio en Chrome o Safari para guardar el PDF.',
+        type: 'warning',
+      });
+      setIsExportMenuOpen(false);
+      return;
+    }
+
+    setProcessingState('downloading');
+    setIsExportMenuOpen(false);
+
+    try {
+      const blob = await renderPocketAgendaPDF(exportInput);
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.download = `mi-agenda-${FESTIVAL.slug}.pdf`;
+      link.href = url;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      console.error('Error generating PDF:', error);
+      setToastInfo({
+        message: 'No se pudo generar el PDF. Probá con "Imprimir".',
+        type: 'warning',
+      });
     } finally {
       setProcessingState('idle');
     }
-  }, [
-    selectedEvents,
-    generateAgendaImage,
-    downloadAgendaImage,
-    copyShareLink,
-    shareText,
-    shareUrl,
-  ]);
+  }, [selectedEvents, exportInput]);
+
+  const handlePrint = useCallback(() => {
+    if (selectedEvents.length === 0) return;
+    setIsExportMenuOpen(false);
+    // Already mounted (the browser didn't report the last dialog closing)
+    if (isPrinting) window.print();
+    else setIsPrinting(true);
+  }, [selectedEvents, isPrinting]);
+
+  const handlePrintDone = useCallback(() => setIsPrinting(false), []);
+
+  const handleImagePicked = useCallback(
+    (blob: Blob | null, template: AgendaImageTemplate) => {
+      const mode = imagePickerMode;
+      setAgendaImageTemplatePreference(template);
+      closeImagePicker();
+      if (mode === 'share') {
+        shareAgenda(blob);
+      } else if (blob) {
+        downloadAgendaImage(blob);
+      }
+    },
+    [imagePickerMode, closeImagePicker, shareAgenda, downloadAgendaImage]
+  );
+
+  const openImport = useCallback(() => {
+    setIsExportMenuOpen(false);
+    setIsImportOpen(true);
+  }, []);
+
+  const closeImport = useCallback(() => setIsImportOpen(false), []);
+
+  const handleImported = useCallback(
+    (imported: Agenda, added: number) => {
+      onImportAgenda(imported);
+      setIsImportOpen(false);
+      setToastInfo({
+        message: `Agenda importada: ${added} show${added !== 1 ? 's' : ''} nuevo${added !== 1 ? 's' : ''}, ${imported.size} en total.`,
+        type: 'success',
+      });
+    },
+    [onImportAgenda]
+  );
 
   // ─── Shared UI Elements ────────────────────────────────────────────
 
@@ -440,16 +812,63 @@ export function ActionPanel({
         onToggle={toggleExportMenu}
         processingState={processingState}
         onExportImage={handleExportImage}
+        onExportPDF={handleExportPDF}
+        onPrint={handlePrint}
         onExportICS={handleExportICS}
+        onCopyText={handleCopyText}
+        onDownloadText={handleDownloadText}
+        copiedFormat={copiedFormat}
+        onAddToCalendar={handleAddToCalendar}
+        dayCount={selectedDayCount}
+        icsAlarm={icsAlarm}
+        onToggleICSAlarm={() => setICSAlarm((prev) => !prev)}
+        schedules={schedules}
+        onImport={readOnly ? undefined : openImport}
       />
     </div>
   );
 
-  const agendaPreview = (
-    <AgendaImagePreview
-      ref={agendaImageRef}
-      selectedEvents={selectedEvents}
-      schedules={schedules}
+  const imagePicker = imagePickerMode && (
+    <AgendaImagePicker
+      input={exportInput}
+      mode={imagePickerMode}
+      initialTemplate={getAgendaImageTemplatePreference()}
+      render={renderAgendaImage}
+      onConfirm={handleImagePicked}
+      onClose={closeImagePicker}
+    />
+  );
+
+  const pocketAgenda = isPrinting && (
+    <PocketAgenda input={exportInput} onDone={handlePrintDone} />
+  );
+
+  const importDialog = isImportOpen && (
+    <AgendaImportDialog
+      agenda={agenda}
+      allEvents={allEvents}
+      timeZone={timeZone}
+      onImport={handleImported}
+      onClose={closeImport}
+    />
+  );
+
+  const calendarWalkthrough = walkthroughTarget && (
+    <CalendarWalkthrough
+      events={chronologicalEvents}
+      target={walkthroughTarget}
+      onClose={closeWalkthrough}
+      timeZone={timeZone}
+    />
+  );
+
+  const toast = toastInfo && (
+    <Toast
+      message={toastInfo.message}
+      type={toastInfo.type}
+      linkText={toastInfo.linkText}
+      linkUrl={toastInfo.linkUrl}
+      onClose={() => setToastInfo(null)}
     />
   );
 
@@ -461,7 +880,7 @@ export function ActionPanel({
         <div className="action-status">
           <div className="status-indicator active" />
           <span className="action-panel-text">
-            Agenda compartida ({selectedIds.size} artistas)
+            Agenda compartida ({agenda.size} artistas)
           </span>
         </div>
 
@@ -472,21 +891,31 @@ export function ActionPanel({
           Crear mi agenda
         </button>
 
-        {agendaPreview}
+        {toast}
+
+        {calendarWalkthrough}
+        {imagePicker}
+        {pocketAgenda}
       </div>
     );
   }
 
-  if (selectedIds.size === 0) {
+  if (agenda.size === 0) {
     return (
       <div className="action-panel-hint">
         <p>
           Seleccioná los artistas en la grilla para armar tu recorrido y
           compartilo con tus amigos.
         </p>
-        <a href="/faq" className="action-panel-hint-link">
-          Conocé más →
-        </a>
+        <div className="action-panel-hint-links">
+          <button onClick={openImport} className="action-panel-hint-link">
+            Importar una agenda
+          </button>
+          <a href="/faq" className="action-panel-hint-link">
+            Conocé más →
+          </a>
+        </div>
+        {importDialog}
       </div>
     );
   }
@@ -496,8 +925,8 @@ export function ActionPanel({
       <div className="action-status">
         <div className="status-indicator active" />
         <span className="action-panel-text">
-          {selectedIds.size} artista{selectedIds.size !== 1 ? 's' : ''}{' '}
-          seleccionado{selectedIds.size !== 1 ? 's' : ''}
+          {agenda.size} artista{agenda.size !== 1 ? 's' : ''} seleccionado
+          {agenda.size !== 1 ? 's' : ''}
         </span>
         <div className="filter-toggle-group">
           <button
@@ -519,17 +948,12 @@ export function ActionPanel({
 
       {actionMenus}
 
-      {toastInfo && (
-        <Toast
-          message={toastInfo.message}
-          type={toastInfo.type}
-          linkText={toastInfo.linkText}
-          linkUrl={toastInfo.linkUrl}
-          onClose={() => setToastInfo(null)}
-        />
-      )}
+      {toast}
 
-      {agendaPreview}
+      {calendarWalkthrough}
+      {imagePicker}
+      {pocketAgenda}
+      {importDialog}
     </div>
   );
 }
@@ -0,0 +1,113 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import type { FestivalEvent } from '../lib/types';
+import {
+  generateGoogleCalendarUrl,
+  generateOutlookCalendarUrl,
+} from '../lib/data';
+import { generateAppleCalendarUrl } from '../lib/ics';
+import { getArtistSlug } from '../lib/artists';
+import { CalendarIcon, GoogleIcon } from './Icons';
+
+// ─── Add one show to a calendar ────────────────────────────────────
+
+interface AddToCalendarProps {
+  event: FestivalEvent;
+  /** Icon button with a popover (selected tags) instead of a row of links */
+  compact?: boolean;
+}
+
+function CalendarLinks({ event }: { event: FestivalEvent }) {
+  // Built once per show: the Apple one is a whole .ics in a data: URL,
+  // and the lists holding these links re-render every 30 s (useNow)
+  const urls = useMemo(
+    () => ({
+      google: generateGoogleCalendarUrl(event),
+      outlook: generateOutlookCalendarUrl(event),
+      apple: generateAppleCalendarUrl([event]),
+    }),
+    [event]
+  );
+
+  return (
+    <>
+      <a
+        href={urls.google}
+        target="_blank"
+        rel="noopener noreferrer"
+        className="calendar-link"
+      >
+        <GoogleIcon size={14} />
+        Google
+      </a>
+      <a
+        href={urls.outlook}
+        target="_blank"
+        rel="noopener noreferrer"
+        className="calendar-link"
+      >
+        <CalendarIcon size={14} />
+        Outlook
+      </a>
+      <a
+        href={urls.apple}
+        download={`${getArtistSlug(event.artist)}.ics`}
+        className="calendar-link"
+      >
+        <CalendarIcon size={14} />
+        Apple
+      </a>
+    </>
+  );
+}
+
+export function AddToCalendar({ event, compact = false }: AddToCalendarProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const containerRef = useRef<HTMLSpanElement>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleClickOutside = (e: MouseEvent) => {
+      if (!containerRef.current?.contains(e.target as Node)) setIsOpen(false);
+    };
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') setIsOpen(false);
+    };
+    document.addEventListener('mousedown', handleClickOutside);
+    document.addEventListener('keydown', handleKeyDown);
+    return () => {
+      document.removeEventListener('mousedown', handleClickOutside);
+      document.removeEventListener('keydown', handleKeyDown);
+    };
+  }, [isOpen]);
+
+  if (!compact) {
+    return (
+      <div className="calendar-links" aria-label="Agregar al calendario">
+        <span className="calendar-links__label">Agregar al calendario</span>
+        <CalendarLinks event={event} />
+      </div>
+    );
+  }
+
+  return (
+    <span className="calendar-popover" ref={containerRef}>
+      <button
+        className="calendar-popover__toggle"
+        onClick={() => setIsOpen((prev) => !prev)}
+        aria-haspopup="true"
+        aria-expanded={isOpen}
+        aria-label={`Agregar ${event.artist} al calendario`}
+      >
+        <CalendarIcon size={12} />
+      </button>
+      {isOpen && (
+        <span
+          className="calendar-popover__menu"
+          onClick={() => setIsOpen(false)}
+        >
+          <CalendarLinks event={event} />
+        </span>
+      )}
+    </span>
+  );
+}
@@ -0,0 +1,174 @@
+import { useEffect, useRef, useState } from 'react';
+import type { AgendaImageInput, AgendaImageTemplate } from '../lib/types';
+import { AGENDA_IMAGE_TEMPLATES } from '../lib/agenda-image';
+import { DownloadIcon, ShareIcon, XIcon } from './Icons';
+
+// ─── Agenda image template picker ──────────────────────────────────
+// Renders every template of the agenda image as a thumbnail so the
+// user can compare them before downloading or sharing. The chosen
+// PNG is handed over already rendered, so sharing it doesn't need
+// another await (which would lose the click's user activation).
+
+type Preview = { blob: Blob; url: string } | 'error';
+
+interface AgendaImagePickerProps {
+  input: Omit<AgendaImageInput, 'template'>;
+  mode: 'download' | 'share';
+  initialTemplate: AgendaImageTemplate;
+  render: (input: AgendaImageInput) => Promise<Blob>;
+  /** `blob` is null when the chosen template failed to render */
+  onConfirm: (blob: Blob | null, template: AgendaImageTemplate) => void;
+  onClose: () => void;
+}
+
+export function AgendaImagePicker({
+  input,
+  mode,
+  initialTemplate,
+  render,
+  onConfirm,
+  onClose,
+}: AgendaImagePickerProps) {
+  const [selected, setSelected] = useState(initialTemplate);
+  const [previews, setPreviews] = useState<
+    Partial<Record<AgendaImageTemplate, Preview>>
+  >({});
+  const closeRef = useRef<HTMLButtonElement>(null);
+
+  useEffect(() => {
+    const previous = document.activeElement as HTMLElement | null;
+    closeRef.current?.focus();
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    document.addEventListener('keydown', handleKeyDown);
+    return () => {
+      document.removeEventListener('keydown', handleKeyDown);
+      previous?.focus();
+    };
+  }, [onClose]);
+
+  // One template at a time, the initially selected one first
+  useEffect(() => {
+    let cancelled = false;
+    const urls: string[] = [];
+    const order = [
+      initialTemplate,
+      ...AGENDA_IMAGE_TEMPLATES.map((t) => t.id).filter(
+        (id) => id !== initialTemplate
+      ),
+    ];
+    setPreviews({});
+
+    (async () => {
+      for (const template of order) {
+        let preview: Preview;
+        try {
+          const blob = await render({ ...input, template });
+          if (cancelled) return;
+          const url = URL.createObjectURL(blob);
+          urls.push(url);
+          preview = { blob, url };
+        } catch (error) {
+          if (cancelled) return;
+          console.error(`Error rendering the ${template} image:`, error);
+          preview = 'error';
+        }
+        setPreviews((prev) => ({ ...prev, [template]: preview }));
+      }
+    })();
+
+    return () => {
+      cancelled = true;
+      urls.forEach((url) => URL.revokeObjectURL(url));
+    };
+  }, [input, initialTemplate, render]);
+
+  const current = previews[selected];
+  const isReady =
+    current !== undefined && (current !== 'error' || mode === 'share');
+
+  return (
+    <div className="image-picker-backdrop" onClick={onClose}>
+      <div
+        className="image-picker"
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="image-picker-title"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="image-picker__header">
+          <h3 id="image-picker-title" className="image-picker__title">
+            Elegí el diseño de la imagen
+          </h3>
+          <button
+            ref={closeRef}
+            className="image-picker__close"
+            onClick={onClose}
+            aria-label="Cerrar"
+          >
+            <XIcon size={16} />
+          </button>
+        </div>
+
+        <div
+          className="image-picker__options"
+          role="radiogroup"
+          aria-labelledby="image-picker-title"
+        >
+          {AGENDA_IMAGE_TEMPLATES.map((template) => {
+            const preview = previews[template.id];
+            return (
+              <button
+                key={template.id}
+                type="button"
+                role="radio"
+                aria-checked={selected === template.id}
+                className={`image-picker__option ${selected === template.id ? 'image-picker__option--selected' : ''}`}
+                onClick={() => setSelected(template.id)}
+              >
+                <span className="image-picker__thumb">
+                  {preview === undefined && (
+                    <span className="image-picker__placeholder">
+                      Generando...
+                    </span>
+                  )}
+                  {preview === 'error' && (
+                    <span className="image-picker__placeholder">
+                      No se pudo generar
+                    </span>
+                  )}
+                  {preview && preview !== 'error' && (
+                    <img src={preview.url} alt="" />
+                  )}
+                </span>
+                <span className="image-picker__label">{template.label}</span>
+                <span className="image-picker__description">
+                  {template.description}
+                </span>
+              </button>
+            );
+          })}
+        </div>
+
+        <button
+          className="btn-primary image-picker__confirm"
+          disabled={!isReady}
+          onClick={() =>
+            onConfirm(
+              current && current !== 'error' ? current.blob : null,
+              selected
+            )
+          }
+        >
+          {mode === 'download' ? <DownloadIcon /> : <ShareIcon />}
+          {current === undefined
+            ? 'Generando...'
+            : mode === 'download'
+              ? 'Descargar imagen'
+              : 'Compartir'}
+        </button>
+      </div>
+    </div>
+  );
+}
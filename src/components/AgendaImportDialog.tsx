@@ -0,0 +1,263 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import type { ChangeEvent } from 'react';
+import type { Agenda, FestivalEvent } from '../lib/types';
+import { getEventTimeLabels } from '../lib/data';
+import { DEFAULT_TIER, TIER_LABELS } from '../lib/constants';
+import { applyAgendaImport, parseAgendaImport } from '../lib/agenda-import';
+import type {
+  AgendaImportMode,
+  AgendaImportSource,
+} from '../lib/agenda-import';
+import { FileTextIcon, UploadIcon, XIcon } from './Icons';
+
+// ─── Agenda import dialog ──────────────────────────────────────────
+// Paste a share link or text, or pick an .ics file; the matches are
+// previewed as you go and only touch the agenda on confirm.
+
+interface AgendaImportDialogProps {
+  agenda: Agenda;
+  allEvents: FestivalEvent[];
+  /** Zone of the times shown in the preview and written in pasted text */
+  timeZone: string;
+  /** `added` counts the imported shows that weren't in the agenda */
+  onImport: (agenda: Agenda, added: number) => void;
+  onClose: () => void;
+}
+
+const SOURCE_LABELS: Record<AgendaImportSource, string> = {
+  link: 'enlace compartido',
+  ics: 'archivo de calendario',
+  text: 'texto',
+};
+
+/** Unmatched entries listed before collapsing the rest into a count */
+const MAX_UNMATCHED_SHOWN = 5;
+
+export function AgendaImportDialog({
+  agenda,
+  allEvents,
+  timeZone,
+  onImport,
+  onClose,
+}: AgendaImportDialogProps) {
+  const [text, setText] = useState('');
+  const [file, setFile] = useState<{ name: string; content: string } | null>(
+    null
+  );
+  const [fileError, setFileError] = useState(false);
+  const [mode, setMode] = useState<AgendaImportMode>('merge');
+  const closeRef = useRef<HTMLButtonElement>(null);
+
+  useEffect(() => {
+    const previous = document.activeElement as HTMLElement | null;
+    closeRef.current?.focus();
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    document.addEventListener('keydown', handleKeyDown);
+    return () => {
+      document.removeEventListener('keydown', handleKeyDown);
+      previous?.focus();
+    };
+  }, [onClose]);
+
+  const input = file?.content ?? text;
+  const result = useMemo(
+    () => (input.trim() ? parseAgendaImport(input, allEvents, timeZone) : null),
+    [input, allEvents, timeZone]
+  );
+
+  const added = result
+    ? result.matches.filter((m) => !agenda.has(m.event.id)).length
+    : 0;
+  const effectiveMode = agenda.size === 0 ? 'replace' : mode;
+  /** Shows the confirm button will add (merge) or leave (replace) */
+  const count =
+    effectiveMode === 'merge' ? added : (result?.matches.length ?? 0);
+
+  const handleFile = async (e: ChangeEvent<HTMLInputElement>) => {
+    const picked = e.target.files?.[0];
+    e.target.value = '';
+    if (!picked) return;
+    try {
+      setFile({ name: picked.name, content: await picked.text() });
+      setFileError(false);
+    } catch {
+      setFileError(true);
+    }
+  };
+
+  const handleConfirm = () => {
+    if (!result || count === 0) return;
+    onImport(applyAgendaImport(agenda, result, effectiveMode), added);
+  };
+
+  const unmatched = result?.unmatched ?? [];
+
+  return (
+    <div className="import-dialog-backdrop" onClick={onClose}>
+      <div
+        className="import-dialog"
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="import-dialog-title"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="import-dialog__header">
+          <h3 id="import-dialog-title" className="import-dialog__title">
+            Importar agenda
+          </h3>
+          <button
+            ref={closeRef}
+            className="import-dialog__close"
+            onClick={onClose}
+            aria-label="Cerrar"
+          >
+            <XIcon size={16} />
+          </button>
+        </div>
+
+        <p className="import-dialog__intro">
+          Pegá el enlace de una agenda compartida o el texto que te pasaron, o
+          elegí un archivo <code>.ics</code> que hayas exportado.
+        </p>
+
+        {file ? (
+          <div className="import-dialog__file">
+            <FileTextIcon />
+            <span>{file.name}</span>
+            <button
+              className="import-dialog__close"
+              onClick={() => setFile(null)}
+              aria-label="Quitar archivo"
+            >
+              <XIcon size={14} />
+            </button>
+          </div>
+        ) : (
+          <textarea
+            className="import-dialog__input"
+            value={text}
+            onChange={(e) => setText(e.target.value)}
+            placeholder="https://… o la lista de artistas"
+            rows={4}
+            aria-label="Enlace o texto de la agenda"
+          />
+        )}
+
+        <label className="btn-secondary import-dialog__pick">
+          <UploadIcon />
+          Elegir archivo .ics
+          <input
+            type="file"
+            accept=".ics,text/calendar"
+            onChange={handleFile}
+            hidden
+          />
+        </label>
+        {fileError && (
+          <p className="import-dialog__error" role="alert">
+            No se pudo leer el archivo.
+          </p>
+        )}
+
+        {result && (
+          <div className="import-dialog__preview" aria-live="polite">
+            {result.matches.length === 0 ? (
+              <p className="import-dialog__error">
+                No encontramos shows de la grilla en este{' '}
+                {SOURCE_LABELS[result.source]}.
+              </p>
+            ) : (
+              <>
+                <p className="import-dialog__summary">
+                  {result.matches.length} show
+                  {result.matches.length !== 1 ? 's' : ''} en este{' '}
+                  {SOURCE_LABELS[result.source]}
+                  {agenda.size > 0 && ` (${added} nuevos)`}
+                </p>
+                <ul className="import-dialog__matches">
+                  {result.matches.map(({ event, tier, approximate }) => {
+                    const { start, end } = getEventTimeLabels(event, timeZone);
+                    return (
+                      <li
+                        key={event.id}
+                        className="import-dialog__match"
+                        data-stage={event.stage}
+                      >
+                        <span className="import-dialog__time">
+                          Día {event.day} · {start}–{end}
+                        </span>
+                        <span className="import-dialog__artist">
+                          {event.artist}
+                        </span>
+                        <span className="import-dialog__meta">
+                          {event.stage}
+                          {tier !== DEFAULT_TIER && ` · ${TIER_LABELS[tier]}`}
+                          {agenda.has(event.id) && ' · ya en tu agenda'}
+                          {approximate && ' · por nombre'}
+                        </span>
+                      </li>
+                    );
+                  })}
+                </ul>
+              </>
+            )}
+
+            {unmatched.length > 0 && (
+              <p className="import-dialog__unmatched">
+                Sin coincidencia:{' '}
+                {unmatched.slice(0, MAX_UNMATCHED_SHOWN).join(', ')}
+                {unmatched.length > MAX_UNMATCHED_SHOWN &&
+                  ` y ${unmatched.length - MAX_UNMATCHED_SHOWN} más`}
+              </p>
+            )}
+          </div>
+        )}
+
+        {agenda.size > 0 && (
+          <div
+            className="import-dialog__modes"
+            role="radiogroup"
+            aria-label="Qué hacer con tu agenda"
+          >
+            <button
+              type="button"
+              role="radio"
+              aria-checked={mode === 'merge'}
+              className={`import-dialog__mode ${mode === 'merge' ? 'import-dialog__mode--selected' : ''}`}
+              onClick={() => setMode('merge')}
+            >
+              Sumar a mi agenda
+              <span>
+                Mantiene{' '}
+                {agenda.size === 1 ? 'tu show' : `tus ${agenda.size} shows`} y
+                sus prioridades
+              </span>
+            </button>
+            <button
+              type="button"
+              role="radio"
+              aria-checked={mode === 'replace'}
+              className={`import-dialog__mode ${mode === 'replace' ? 'import-dialog__mode--selected' : ''}`}
+              onClick={() => setMode('replace')}
+            >
+              Reemplazar mi agenda
+              <span>Quedan solo los shows importados</span>
+            </button>
+          </div>
+        )}
+
+        <button
+          className="btn-primary import-dialog__confirm"
+          disabled={count === 0}
+          onClick={handleConfirm}
+        >
+          <UploadIcon />
+          {effectiveMode === 'merge' ? 'Sumar' : 'Importar'} {count} show
+          {count !== 1 ? 's' : ''}
+        </button>
+      </div>
+    </div>
+  );
+}
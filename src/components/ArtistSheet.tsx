@@ -0,0 +1,202 @@
+import { useEffect, useRef, useState } from 'react';
+import type { KeyboardEvent } from 'react';
+import type { AgendaTier, FestivalEvent } from '../lib/types';
+import { getEventTimeRangeLabel } from '../lib/data';
+import { TIER_LABELS } from '../lib/constants';
+import { getArtistPagePath } from '../lib/artist-pages';
+import {
+  CheckIcon,
+  ClockIcon,
+  InfoIcon,
+  InstagramIcon,
+  MapPinIcon,
+  MusicIcon,
+  XIcon,
+  YoutubeIcon,
+} from './Icons';
+import { AddToCalendar } from './AddToCalendar';
+
+// ─── Artist detail sheet ───────────────────────────────────────────
+// Modal dialog with the artists.json metadata of a set. Opened with the
+// info button or a long press on EventBlock / MobileEventCard.
+
+const FOCUSABLE = 'a[href], button:not([disabled])';
+
+interface ArtistSheetProps {
+  event: FestivalEvent;
+  isSelected: boolean;
+  tier?: AgendaTier;
+  readOnly: boolean;
+  onToggle: (id: string) => void;
+  onClose: () => void;
+  timeZone: string;
+}
+
+export function ArtistSheet({
+  event,
+  isSelected,
+  tier,
+  readOnly,
+  onToggle,
+  onClose,
+  timeZone,
+}: ArtistSheetProps) {
+  const sheetRef = useRef<HTMLDivElement>(null);
+  const closeRef = useRef<HTMLButtonElement>(null);
+  const [imageFailed, setImageFailed] = useState(false);
+  const info = event.info ?? {};
+  const titleId = `artist-sheet-title-${event.id}`;
+
+  // Move focus into the dialog and give it back on close
+  useEffect(() => {
+    const previous = document.activeElement as HTMLElement | null;
+    closeRef.current?.focus();
+    return () => previous?.focus();
+  }, []);
+
+  const handleKeyDown = (e: KeyboardEvent) => {
+    if (e.key === 'Escape') {
+      e.stopPropagation();
+      onClose();
+      return;
+    }
+    if (e.key !== 'Tab' || !sheetRef.current) return;
+
+    // Keep Tab inside the dialog
+    const focusable = Array.from(
+      sheetRef.current.querySelectorAll<HTMLElement>(FOCUSABLE)
+    );
+    if (focusable.length === 0) return;
+    const first = focusable[0];
+    const last = focusable[focusable.length - 1];
+    if (e.shiftKey && document.activeElement === first) {
+      e.preventDefault();
+      last.focus();
+    } else if (!e.shiftKey && document.activeElement === last) {
+      e.preventDefault();
+      first.focus();
+    }
+  };
+
+  const links = [
+    {
+      key: 'spotify',
+      label: 'Spotify',
+      url: info.links?.spotify,
+      Icon: MusicIcon,
+    },
+    {
+      key: 'youtube',
+      label: 'YouTube',
+      url: info.links?.youtube,
+      Icon: YoutubeIcon,
+    },
+    {
+      key: 'instagram',
+      label: 'Instagram',
+      url: info.links?.instagram,
+      Icon: InstagramIcon,
+    },
+  ].filter((link) => link.url);
+
+  return (
+    <div className="artist-sheet-backdrop" onClick={onClose}>
+      <div
+        ref={sheetRef}
+        className="artist-sheet"
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby={titleId}
+        data-stage={event.stage}
+        onClick={(e) => e.stopPropagation()}
+        onKeyDown={handleKeyDown}
+      >
+        <button
+          ref={closeRef}
+          className="artist-sheet__close"
+          onClick={onClose}
+          aria-label="Cerrar"
+        >
+          <XIcon size={18} />
+        </button>
+
+        {info.image && !imageFailed && (
+          <img
+            className="artist-sheet__image"
+            src={info.image}
+            alt=""
+            loading="lazy"
+            onError={() => setImageFailed(true)}
+          />
+        )}
+
+        <div className="artist-sheet__body">
+          <h2 id={titleId} className="artist-sheet__title">
+            {event.artist}
+          </h2>
+          {info.country && (
+            <p className="artist-sheet__country">{info.country}</p>
+          )}
+
+          <div className="artist-sheet__meta">
+            <span>
+              <ClockIcon size={14} />
+              Día {event.day} · {getEventTimeRangeLabel(event, timeZone)}
+            </span>
+            <span data-stage={event.stage}>
+              <MapPinIcon size={14} />
+              Escenario {event.stage}
+            </span>
+          </div>
+
+          {info.genres && info.genres.length > 0 && (
+            <ul className="artist-sheet__genres" aria-label="Géneros">
+              {info.genres.map((genre) => (
+                <li key={genre}>{genre}</li>
+              ))}
+            </ul>
+          )}
+
+          {info.bio && <p className="artist-sheet__bio">{info.bio}</p>}
+
+          <div className="artist-sheet__links">
+            {links.map(({ key, label, url, Icon }) => (
+              <a
+                key={key}
+                href={url}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="artist-sheet__link"
+              >
+                <Icon size={16} />
+                {label}
+              </a>
+            ))}
+            <a
+              href={getArtistPagePath(event.artist)}
+              className="artist-sheet__link"
+            >
+              <InfoIcon size={16} />
+              Página del artista
+            </a>
+          </div>
+
+          <AddToCalendar event={event} />
+
+          {!readOnly && (
+            <button
+              className={isSelected ? 'btn-secondary' : 'btn-primary'}
+              onClick={() => onToggle(event.id)}
+              aria-pressed={isSelected}
+            >
+              <CheckIcon />
+              {isSelected
+                ? `En tu agenda${tier ? ` (${TIER_LABELS[tier]})` : ''} · Quitar`
+                : 'Agregar a mi agenda'}
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,142 @@
+import { useEffect, useRef, useState } from 'react';
+import type { FestivalEvent } from '../lib/types';
+import {
+  generateGoogleCalendarUrl,
+  generateOutlookCalendarUrl,
+  getEventTimeLabels,
+} from '../lib/data';
+import { CheckIcon, XIcon } from './Icons';
+
+// ─── Bulk "add to calendar" for web calendars ──────────────────────
+// Google Calendar and Outlook on the web only take one event per URL,
+// and browsers block opening many tabs at once, so this walks through
+// the agenda one show (and one click) at a time.
+
+export type WebCalendarTarget = 'google' | 'outlook';
+
+const TARGETS: Record<
+  WebCalendarTarget,
+  { label: string; buildUrl: (event: FestivalEvent) => string }
+> = {
+  google: { label: 'Google Calendar', buildUrl: generateGoogleCalendarUrl },
+  outlook: { label: 'Outlook', buildUrl: generateOutlookCalendarUrl },
+};
+
+interface CalendarWalkthroughProps {
+  /** Shows to add, in chronological order */
+  events: FestivalEvent[];
+  target: WebCalendarTarget;
+  onClose: () => void;
+  timeZone: string;
+}
+
+export function CalendarWalkthrough({
+  events,
+  target,
+  onClose,
+  timeZone,
+}: CalendarWalkthroughProps) {
+  const [openedIds, setOpenedIds] = useState<Set<string>>(new Set());
+  const closeRef = useRef<HTMLButtonElement>(null);
+  const { label, buildUrl } = TARGETS[target];
+  const next = events.find((e) => !openedIds.has(e.id));
+
+  useEffect(() => {
+    const previous = document.activeElement as HTMLElement | null;
+    closeRef.current?.focus();
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    document.addEventListener('keydown', handleKeyDown);
+    return () => {
+      document.removeEventListener('keydown', handleKeyDown);
+      previous?.focus();
+    };
+  }, [onClose]);
+
+  const markOpened = (id: string) =>
+    setOpenedIds((prev) => new Set(prev).add(id));
+
+  return (
+    <div className="calendar-walkthrough-backdrop" onClick={onClose}>
+      <div
+        className="calendar-walkthrough"
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="calendar-walkthrough-title"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="calendar-walkthrough__header">
+          <h3
+            id="calendar-walkthrough-title"
+            className="calendar-walkthrough__title"
+          >
+            Agregar a {label}
+          </h3>
+          <button
+            ref={closeRef}
+            className="calendar-walkthrough__close"
+            onClick={onClose}
+            aria-label="Cerrar"
+          >
+            <XIcon size={16} />
+          </button>
+        </div>
+
+        <p className="calendar-walkthrough__intro">
+          Cada show se abre en una pestaña nueva: guardalo y volvé para seguir
+          con el próximo.
+        </p>
+
+        <p className="calendar-walkthrough__progress" aria-live="polite">
+          {openedIds.size} de {events.length} agregados
+        </p>
+
+        {next ? (
+          <a
+            href={buildUrl(next)}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="btn-primary calendar-walkthrough__next"
+            onClick={() => markOpened(next.id)}
+          >
+            Abrir {next.artist}
+          </a>
+        ) : (
+          <button className="btn-primary" onClick={onClose}>
+            <CheckIcon />
+            Listo
+          </button>
+        )}
+
+        <ul className="calendar-walkthrough__list">
+          {events.map((event) => {
+            const { start } = getEventTimeLabels(event, timeZone);
+            const isOpened = openedIds.has(event.id);
+            return (
+              <li key={event.id}>
+                <a
+                  href={buildUrl(event)}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className={`calendar-walkthrough__item ${isOpened ? 'calendar-walkthrough__item--done' : ''}`}
+                  onClick={() => markOpened(event.id)}
+                >
+                  <span className="calendar-walkthrough__check">
+                    {isOpened && <CheckIcon size={12} />}
+                  </span>
+                  <span className="calendar-walkthrough__artist">
+                    {event.artist}
+                  </span>
+                  <span className="calendar-walkthrough__when">
+                    Día {event.day} · {start}
+                  </span>
+                </a>
+              </li>
+            );
+          })}
+        </ul>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,106 @@
+import { useMemo } from 'react';
+import type { LineupChange, LineupChangeType, LineupSlot } from '../lib/types';
+import { formatClock } from '../lib/time';
+import { AlertTriangleIcon, XIcon } from './Icons';
+
+// ─── "What changed since your last visit" panel ────────────────────
+
+const CHANGE_LABELS: Record<LineupChangeType, string> = {
+  added: 'Nuevo',
+  removed: 'Cancelado',
+  moved: 'Cambio de horario',
+};
+
+function formatSlot(slot: LineupSlot, timeZone: string): string {
+  return `Día ${slot.day} · ${slot.stage} · ${formatClock(new Date(slot.startAt), timeZone)}`;
+}
+
+function describeChange(change: LineupChange, timeZone: string): string {
+  if (change.type === 'moved' && change.previous) {
+    return `${formatSlot(change.previous, timeZone)} → ${formatSlot(change, timeZone)}`;
+  }
+  if (change.type === 'removed') {
+    return `Estaba en ${formatSlot(change, timeZone)}`;
+  }
+  return formatSlot(change, timeZone);
+}
+
+interface ChangesPanelProps {
+  changes: LineupChange[];
+  selectedIds: Set<string>;
+  onDismiss: () => void;
+  timeZone: string;
+}
+
+export function ChangesPanel({
+  changes,
+  selectedIds,
+  onDismiss,
+  timeZone,
+}: ChangesPanelProps) {
+  // Changes that touch the user's agenda go first
+  const sortedChanges = useMemo(
+    () =>
+      [...changes].sort(
+        (a, b) => Number(selectedIds.has(b.id)) - Number(selectedIds.has(a.id))
+      ),
+    [changes, selectedIds]
+  );
+
+  const affectedCount = useMemo(
+    () => changes.filter((c) => selectedIds.has(c.id)).length,
+    [changes, selectedIds]
+  );
+
+  return (
+    <section className="changes-panel" aria-labelledby="changes-panel-title">
+      <div className="changes-panel__header">
+        <AlertTriangleIcon size={18} />
+        <h3 id="changes-panel-title" className="changes-panel__title">
+          La grilla cambió desde tu última visita
+        </h3>
+        <button
+          className="changes-panel__close"
+          onClick={onDismiss}
+          aria-label="Cerrar cambios de la grilla"
+        >
+          <XIcon size={16} />
+        </button>
+      </div>
+
+      {affectedCount > 0 && (
+        <p className="changes-panel__alert" role="status">
+          {affectedCount} cambio{affectedCount !== 1 ? 's' : ''} afecta
+          {affectedCount !== 1 ? 'n' : ''} a tu agenda.
+        </p>
+      )}
+
+      <ul className="changes-panel__list">
+        {sortedChanges.map((change) => {
+          const isAffected = selectedIds.has(change.id);
+          return (
+            <li
+              key={change.id}
+              className={`changes-panel__item ${isAffected ? 'changes-panel__item--affected' : ''}`}
+            >
+              <span className="changes-panel__badge" data-change={change.type}>
+                {CHANGE_LABELS[change.type]}
+              </span>
+              <span className="changes-panel__artist">{change.artist}</span>
+              <span className="changes-panel__detail">
+                {describeChange(change, timeZone)}
+              </span>
+              {isAffected && (
+                <span className="changes-panel__mine">En tu agenda</span>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+
+      <button className="btn-secondary" onClick={onDismiss}>
+        Entendido
+      </button>
+    </section>
+  );
+}
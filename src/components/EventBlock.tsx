@@ -1,40 +1,81 @@
-import type { FestivalEvent } from '../lib/types';
-import { getEventLocalTime } from '../lib/data';
-import { PX_PER_MINUTE } from '../lib/constants';
-import { CheckIcon } from './Icons';
+import type {
+  AgendaTier,
+  Conflict,
+  FestivalEvent,
+  GroupAttendee,
+} from '../lib/types';
+import { getEventTimeLabels, getEventTimeRangeLabel } from '../lib/data';
+import { describeConflict, getWorstConflictKind } from '../lib/conflicts';
+import { PX_PER_MINUTE, TIER_LABELS } from '../lib/constants';
+import { hasArtistInfo } from '../lib/artists';
+import { useLongPress } from '../hooks/useLongPress';
+import { AlertTriangleIcon, CheckIcon, InfoIcon, StarIcon } from './Icons';
+import { GroupMarkers, describeAttendees } from './GroupMarkers';
 
 // ─── Event Block (desktop grid) ────────────────────────────────────
 
 interface EventBlockProps {
   event: FestivalEvent;
   isSelected: boolean;
+  /** Priority tier in the agenda, when selected */
+  tier?: AgendaTier;
   readOnly: boolean;
   onToggle: (id: string) => void;
   gridStartMinute: number;
+  timeZone: string;
+  /** Clashes with other selected events */
+  conflicts?: Conflict[];
+  /** Group view: friends going to this show */
+  attendees?: GroupAttendee[];
+  /** Group view: one of the day's shows with the most friends */
+  isMostShared?: boolean;
+  /** Opens the artist detail sheet (only used when there is metadata) */
+  onShowDetails?: (id: string) => void;
 }
 
 export function EventBlock({
   event,
   isSelected,
+  tier,
   readOnly,
   onToggle,
   gridStartMinute,
+  timeZone,
+  conflicts = [],
+  attendees = [],
+  isMostShared = false,
+  onShowDetails,
 }: EventBlockProps) {
   const top = (event.startMinutes - gridStartMinute) * PX_PER_MINUTE;
   const height = Math.max(event.duration * PX_PER_MINUTE, 28);
-  const startTime = getEventLocalTime(event.startAt);
-  const endTime = getEventLocalTime(event.endAt);
+  const { start: startTime, end: endTime } = getEventTimeLabels(
+    event,
+    timeZone
+  );
+  const conflictKind = getWorstConflictKind(conflicts);
+  const conflictText = conflicts
+    .map((c) => describeConflict(c, event.id))
+    .join('. ');
+  const showDetails =
+    onShowDetails && hasArtistInfo(event.info)
+      ? () => onShowDetails(event.id)
+      : undefined;
+  const { handlers: longPressHandlers, wasLongPress } =
+    useLongPress(showDetails);
 
-  return (
+  const block = (
     <button
       type="button"
       role="gridcell"
       aria-pressed={isSelected}
-      aria-label={`${event.artist}, ${startTime} a ${endTime}, Escenario ${event.stage}${isSelected ? ', seleccionado' : ''}`}
-      className="event-block"
+      aria-label={`${event.artist}, ${getEventTimeRangeLabel(event, timeZone)}, Escenario ${event.stage}${isSelected ? `, seleccionado${tier ? ` (${TIER_LABELS[tier]})` : ''}` : ''}${describeAttendees(attendees)}${isMostShared ? ', donde más coinciden' : ''}${conflictText ? `. ${conflictText}` : ''}`}
+      className={`event-block ${isSelected && tier ? `event-block--${tier}` : ''} ${event.endConfidence === 'estimated' ? 'event-block--estimated-end' : ''} ${conflictKind ? `event-block--conflict-${conflictKind}` : ''} ${isMostShared ? 'event-block--most-shared' : ''} ${showDetails ? 'event-block--has-info' : ''}`}
       data-stage={event.stage}
+      data-event-id={event.id}
+      title={`${event.artist} · ${startTime} - ${endTime} · ${event.stage}${conflictText ? `\n⚠ ${conflictText}` : ''}`}
       style={{ top: `${top}px`, height: `${height}px` }}
-      onClick={() => !readOnly && onToggle(event.id)}
+      onClick={() => !wasLongPress() && !readOnly && onToggle(event.id)}
+      {...(showDetails ? longPressHandlers : {})}
       tabIndex={0}
       disabled={readOnly}
     >
@@ -47,9 +88,14 @@ export function EventBlock({
         }}
       >
         <span className="event-artist">{event.artist}</span>
+        {conflictKind && (
+          <div className="event-conflict-icon" data-conflict={conflictKind}>
+            <AlertTriangleIcon size={14} />
+          </div>
+        )}
         {isSelected && (
           <div style={{ flexShrink: 0, opacity: 0.8 }}>
-            <CheckIcon size={14} />
+            {tier === 'must' ? <StarIcon size={14} /> : <CheckIcon size={14} />}
           </div>
         )}
       </div>
@@ -58,6 +104,25 @@ export function EventBlock({
           {startTime} - {endTime}
         </span>
       )}
+      {attendees.length > 0 && <GroupMarkers attendees={attendees} />}
     </button>
   );
+
+  if (!showDetails) return block;
+
+  return (
+    <>
+      {block}
+      <button
+        type="button"
+        className="event-info-btn"
+        style={{ top: `${top + 4}px` }}
+        onClick={showDetails}
+        aria-label={`Más sobre ${event.artist}`}
+        title={`Más sobre ${event.artist}`}
+      >
+        <InfoIcon size={14} />
+      </button>
+    </>
+  );
 }
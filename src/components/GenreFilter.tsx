@@ -0,0 +1,49 @@
+import type { GenreTag } from '../lib/artists';
+import { TagIcon } from './Icons';
+
+// ─── Genre Filter Chips (grid and mobile timeline) ─────────────────
+
+interface GenreFilterProps {
+  tags: GenreTag[];
+  activeGenres: Set<string>;
+  onToggle: (slug: string) => void;
+  onClear: () => void;
+}
+
+export function GenreFilter({
+  tags,
+  activeGenres,
+  onToggle,
+  onClear,
+}: GenreFilterProps) {
+  if (tags.length === 0) return null;
+
+  return (
+    <div className="genre-filter" role="group" aria-label="Filtrar por género">
+      <div className="genre-filter__header">
+        <TagIcon size={14} />
+        <span>Géneros</span>
+      </div>
+      <div className="genre-filter__chips">
+        <button
+          className={`genre-chip ${activeGenres.size === 0 ? 'genre-chip--active' : ''}`}
+          onClick={onClear}
+          aria-pressed={activeGenres.size === 0}
+        >
+          Todos
+        </button>
+        {tags.map((tag) => (
+          <button
+            key={tag.slug}
+            className={`genre-chip ${activeGenres.has(tag.slug) ? 'genre-chip--active' : ''}`}
+            onClick={() => onToggle(tag.slug)}
+            aria-pressed={activeGenres.has(tag.slug)}
+          >
+            {tag.label}
+            <span className="genre-chip__count">{tag.count}</span>
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+}
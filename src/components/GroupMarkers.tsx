@@ -0,0 +1,48 @@
+import type { GroupAttendee } from '../lib/types';
+
+// ─── Group view: who's going to a show ─────────────────────────────
+
+const MAX_MARKERS = 4;
+
+interface GroupMarkersProps {
+  attendees: GroupAttendee[];
+}
+
+export function GroupMarkers({ attendees }: GroupMarkersProps) {
+  const hidden = attendees.length - MAX_MARKERS;
+
+  return (
+    <span
+      className="group-markers"
+      title={`Van: ${attendees.map((a) => a.name).join(', ')}`}
+    >
+      {attendees.slice(0, MAX_MARKERS).map((a, i) => (
+        <span
+          key={i}
+          className="group-marker"
+          style={{ background: a.color }}
+          aria-hidden="true"
+        >
+          {a.name.charAt(0).toUpperCase()}
+        </span>
+      ))}
+      {hidden > 0 && (
+        <span className="group-marker group-marker--more" aria-hidden="true">
+          +{hidden}
+        </span>
+      )}
+      <span className="group-markers__count">{attendees.length}</span>
+    </span>
+  );
+}
+
+/** Spoken summary for aria-labels, e.g. ", van 3: Ana, Juan y Sol" */
+export function describeAttendees(attendees: GroupAttendee[]): string {
+  if (attendees.length === 0) return '';
+  const names = attendees.map((a) => a.name);
+  const list =
+    names.length === 1
+      ? names[0]
+      : `${names.slice(0, -1).join(', ')} y ${names[names.length - 1]}`;
+  return `, ${attendees.length === 1 ? 'va' : `van ${attendees.length}`}: ${list}`;
+}
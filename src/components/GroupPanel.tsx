@@ -0,0 +1,183 @@
+import { useState } from 'react';
+import type { FormEvent } from 'react';
+import type { FestivalEvent, GroupAttendee, GroupMember } from '../lib/types';
+import { getEventTimeLabels } from '../lib/data';
+import { getMemberColor, parseShareLink } from '../lib/group';
+import { GroupMarkers } from './GroupMarkers';
+import { UsersIcon, XIcon } from './Icons';
+
+// ─── Group view panel ──────────────────────────────────────────────
+
+interface GroupPanelProps {
+  /** Saved friends (the user's own agenda is not part of this list) */
+  friends: GroupMember[];
+  /** Whether the user's own agenda is shown first as "Vos" */
+  includesYou: boolean;
+  onAdd: (member: GroupMember) => void;
+  onRemove: (index: number) => void;
+  onClose: () => void;
+  attendance: Map<string, GroupAttendee[]>;
+  /** Shows where the most friends overlap, in chronological order */
+  mostSharedEvents: FestivalEvent[];
+  eventIds: string[];
+  /** Pre-filled link, e.g. the shared agenda currently open */
+  initialLink?: string;
+  timeZone: string;
+}
+
+export function GroupPanel({
+  friends,
+  includesYou,
+  onAdd,
+  onRemove,
+  onClose,
+  attendance,
+  mostSharedEvents,
+  eventIds,
+  initialLink = '',
+  timeZone,
+}: GroupPanelProps) {
+  const [name, setName] = useState('');
+  const [link, setLink] = useState(initialLink);
+  const [error, setError] = useState<string | null>(null);
+
+  const offset = includesYou ? 1 : 0;
+
+  const handleAdd = (e: FormEvent) => {
+    e.preventDefault();
+    const trimmedName = name.trim();
+    if (!trimmedName) {
+      setError('Poné un nombre para esta agenda.');
+      return;
+    }
+    if (
+      (includesYou && trimmedName.toLowerCase() === 'vos') ||
+      friends.some((f) => f.name.toLowerCase() === trimmedName.toLowerCase())
+    ) {
+      setError(`Ya hay alguien llamado ${trimmedName} en el grupo.`);
+      return;
+    }
+    const agenda = parseShareLink(link, eventIds);
+    if (!agenda) {
+      setError('El enlace no tiene una agenda. Copialo desde "Compartir".');
+      return;
+    }
+    onAdd({ name: trimmedName, agenda });
+    setName('');
+    setLink('');
+    setError(null);
+  };
+
+  return (
+    <section className="group-panel" aria-labelledby="group-panel-title">
+      <div className="group-panel__header">
+        <h3 id="group-panel-title" className="group-panel__title">
+          <UsersIcon size={16} />
+          Modo grupo
+        </h3>
+        <button
+          className="group-panel__close"
+          onClick={onClose}
+          aria-label="Cerrar modo grupo"
+        >
+          <XIcon size={16} />
+        </button>
+      </div>
+
+      <p className="group-panel__intro">
+        Pegá los enlaces que te compartieron tus amigos y ponele un nombre a
+        cada uno. En la grilla vas a ver quién va a cada show.
+      </p>
+
+      {(includesYou || friends.length > 0) && (
+        <ul className="group-panel__members">
+          {includesYou && (
+            <li className="group-panel__member">
+              <span
+                className="group-marker"
+                style={{ background: getMemberColor(0) }}
+                aria-hidden="true"
+              >
+                V
+              </span>
+              Vos
+            </li>
+          )}
+          {friends.map((friend, index) => (
+            <li key={friend.name} className="group-panel__member">
+              <span
+                className="group-marker"
+                style={{ background: getMemberColor(index + offset) }}
+                aria-hidden="true"
+              >
+                {friend.name.charAt(0).toUpperCase()}
+              </span>
+              {friend.name}
+              <span className="group-panel__member-count">
+                ({friend.agenda.size})
+              </span>
+              <button
+                className="group-panel__member-remove"
+                onClick={() => onRemove(index)}
+                aria-label={`Quitar a ${friend.name} del grupo`}
+              >
+                ✕
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <form className="group-panel__form" onSubmit={handleAdd}>
+        <input
+          className="group-panel__input"
+          type="text"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder="Nombre"
+          aria-label="Nombre"
+          maxLength={24}
+        />
+        <input
+          className="group-panel__input group-panel__input--link"
+          type="text"
+          inputMode="url"
+          value={link}
+          onChange={(e) => setLink(e.target.value)}
+          placeholder="Enlace de su agenda"
+          aria-label="Enlace de su agenda"
+        />
+        <button type="submit" className="btn-primary">
+          Agregar
+        </button>
+      </form>
+      {error && (
+        <p className="group-panel__error" role="alert">
+          {error}
+        </p>
+      )}
+
+      {mostSharedEvents.length > 0 && (
+        <div className="group-panel__meetups">
+          <h4>Donde más coinciden</h4>
+          <ul>
+            {mostSharedEvents.map((event) => {
+              const { start, end } = getEventTimeLabels(event, timeZone);
+              return (
+                <li key={event.id} data-stage={event.stage}>
+                  <span className="group-panel__meetup-show">
+                    <strong>{event.artist}</strong>
+                    <span>
+                      Día {event.day} · {event.stage} · {start} - {end}
+                    </span>
+                  </span>
+                  <GroupMarkers attendees={attendance.get(event.id) ?? []} />
+                </li>
+              );
+            })}
+          </ul>
+        </div>
+      )}
+    </section>
+  );
+}
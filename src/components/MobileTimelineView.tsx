@@ -1,40 +1,79 @@
-import { useState, useMemo, useRef } from 'react';
-import type { FestivalEvent } from '../lib/types';
-import { getEventLocalTime } from '../lib/data';
+import { useState, useMemo, useRef, useEffect } from 'react';
+import type {
+  Agenda,
+  AgendaTier,
+  Conflict,
+  FestivalEvent,
+  GroupAttendee,
+} from '../lib/types';
+import { getEventTimeLabels, getEventTimeRangeLabel } from '../lib/data';
+import { formatClock } from '../lib/time';
+import { describeConflict, getWorstConflictKind } from '../lib/conflicts';
+import { TIER_LABELS } from '../lib/constants';
+import { hasArtistInfo } from '../lib/artists';
+import { useLongPress } from '../hooks/useLongPress';
 import {
+  AlertTriangleIcon,
   CheckIcon,
   ClockIcon,
   MapPinIcon,
   FilterIcon,
   EyeOffIcon,
+  InfoIcon,
+  StarIcon,
 } from './Icons';
+import { GroupMarkers, describeAttendees } from './GroupMarkers';
 
 // ─── Mobile Event Card ─────────────────────────────────────────────
 
 interface MobileEventCardProps {
   event: FestivalEvent;
   isSelected: boolean;
+  /** Priority tier in the agenda, when selected */
+  tier?: AgendaTier;
   readOnly: boolean;
   onToggle: (id: string) => void;
+  timeZone: string;
+  conflicts?: Conflict[];
+  attendees?: GroupAttendee[];
+  isMostShared?: boolean;
+  onShowDetails?: (id: string) => void;
 }
 
 function MobileEventCard({
   event,
   isSelected,
+  tier,
   readOnly,
   onToggle,
+  timeZone,
+  conflicts = [],
+  attendees = [],
+  isMostShared = false,
+  onShowDetails,
 }: MobileEventCardProps) {
-  const startTime = getEventLocalTime(event.startAt);
-  const endTime = getEventLocalTime(event.endAt);
+  const { start: startTime, end: endTime } = getEventTimeLabels(
+    event,
+    timeZone
+  );
+  const conflictKind = getWorstConflictKind(conflicts);
+  const showDetails =
+    onShowDetails && hasArtistInfo(event.info)
+      ? () => onShowDetails(event.id)
+      : undefined;
+  const { handlers: longPressHandlers, wasLongPress } =
+    useLongPress(showDetails);
 
-  return (
+  const card = (
     <button
       type="button"
       aria-pressed={isSelected}
-      aria-label={`${event.artist}, ${startTime} a ${endTime}, Escenario ${event.stage}${isSelected ? ', seleccionado' : ''}`}
-      className={`mobile-event-card ${isSelected ? 'mobile-event-card--selected' : ''}`}
+      aria-label={`${event.artist}, ${getEventTimeRangeLabel(event, timeZone)}, Escenario ${event.stage}${isSelected ? `, seleccionado${tier ? ` (${TIER_LABELS[tier]})` : ''}` : ''}${describeAttendees(attendees)}${isMostShared ? ', donde más coinciden' : ''}`}
+      className={`mobile-event-card ${isSelected ? 'mobile-event-card--selected' : ''} ${isSelected && tier ? `mobile-event-card--${tier}` : ''} ${event.endConfidence === 'estimated' ? 'mobile-event-card--estimated-end' : ''} ${conflictKind ? `mobile-event-card--conflict-${conflictKind}` : ''} ${isMostShared ? 'mobile-event-card--most-shared' : ''} ${showDetails ? 'mobile-event-card--has-info' : ''}`}
       data-stage={event.stage}
-      onClick={() => !readOnly && onToggle(event.id)}
+      data-event-id={event.id}
+      onClick={() => !wasLongPress() && !readOnly && onToggle(event.id)}
+      {...(showDetails ? longPressHandlers : {})}
       disabled={readOnly}
     >
       <div className="mobile-event-card__accent" data-stage={event.stage} />
@@ -43,23 +82,59 @@ function MobileEventCard({
           <span className="mobile-event-card__artist">{event.artist}</span>
           {isSelected && (
             <div className="mobile-event-card__check">
-              <CheckIcon size={16} />
+              {tier === 'must' ? (
+                <StarIcon size={16} />
+              ) : (
+                <CheckIcon size={16} />
+              )}
             </div>
           )}
         </div>
         <div className="mobile-event-card__meta">
           <span className="mobile-event-card__time">
             <ClockIcon size={12} />
-            {startTime} – {endTime}
+            {startTime} –{' '}
+            <span className="mobile-event-card__end">{endTime}</span>
           </span>
           <span className="mobile-event-card__stage" data-stage={event.stage}>
             <MapPinIcon size={12} />
             {event.stage}
           </span>
         </div>
+        {attendees.length > 0 && <GroupMarkers attendees={attendees} />}
+        {conflicts.length > 0 && (
+          <span className="mobile-event-card__conflicts">
+            {conflicts.map((c) => (
+              <span
+                key={`${c.first.id}-${c.second.id}`}
+                className="mobile-event-card__conflict"
+                data-conflict={c.kind}
+              >
+                <AlertTriangleIcon size={12} />
+                {describeConflict(c, event.id)}
+              </span>
+            ))}
+          </span>
+        )}
       </div>
     </button>
   );
+
+  if (!showDetails) return card;
+
+  return (
+    <div className="mobile-event-card-wrap">
+      {card}
+      <button
+        type="button"
+        className="mobile-event-card__info"
+        onClick={showDetails}
+        aria-label={`Más sobre ${event.artist}`}
+      >
+        <InfoIcon size={16} />
+      </button>
+    </div>
+  );
 }
 
 // ─── Stage Filter Chips ────────────────────────────────────────────
@@ -109,11 +184,14 @@ interface TimeGroup {
   events: FestivalEvent[];
 }
 
-function groupEventsByHour(events: FestivalEvent[]): TimeGroup[] {
+function groupEventsByHour(
+  events: FestivalEvent[],
+  timeZone: string
+): TimeGroup[] {
   const groups = new Map<string, FestivalEvent[]>();
 
   for (const event of events) {
-    const time = getEventLocalTime(event.startAt);
+    const time = formatClock(event.startAt, timeZone);
     const hour = time.split(':')[0] + ':00';
     if (!groups.has(hour)) {
       groups.set(hour, []);
@@ -146,23 +224,46 @@ interface MobileTimelineViewProps {
     endMinute: number;
   };
   selectedIds: Set<string>;
+  /** Priority tier of each selected event */
+  tiers?: Agenda;
   readOnly: boolean;
   onToggle: (id: string) => void;
   showOnlySelected?: boolean;
   allSchedules?: { day: number; label: string; date: string }[];
   onNavigateToDay?: (day: number) => void;
+  timeZone: string;
+  /** Clashes among the selected events, by event id */
+  conflictsByEvent?: Map<string, Conflict[]>;
+  /** Group view: friends going to each show, by event id */
+  attendance?: Map<string, GroupAttendee[]>;
+  mostSharedIds?: Set<string>;
+  onShowDetails?: (id: string) => void;
+  /** Event being jumped to from search; clears a stage filter hiding it */
+  revealEventId?: string | null;
+  /** Live mode: current time in grid minutes, when this is tonight */
+  nowMinute?: number | null;
 }
 
 export function MobileTimelineView({
   schedule,
   selectedIds,
+  tiers,
   readOnly,
   onToggle,
   showOnlySelected = false,
   allSchedules = [],
   onNavigateToDay,
+  timeZone,
+  conflictsByEvent,
+  attendance,
+  mostSharedIds,
+  onShowDetails,
+  revealEventId,
+  nowMinute = null,
 }: MobileTimelineViewProps) {
   const [activeStage, setActiveStage] = useState<string | null>(null);
+  const nowGroupRef = useRef<HTMLDivElement>(null);
+  const scrolledToNowRef = useRef<number | null>(null);
 
   const stageNames = useMemo(
     () => schedule.stages.map((s) => s.name),
@@ -174,6 +275,12 @@ export function MobileTimelineView({
     [schedule.stages]
   );
 
+  useEffect(() => {
+    if (!revealEventId || activeStage === null) return;
+    const target = allEvents.find((e) => e.id === revealEventId);
+    if (target && target.stage !== activeStage) setActiveStage(null);
+  }, [revealEventId]);
+
   const filteredEvents = useMemo(
     () =>
       activeStage
@@ -183,10 +290,27 @@ export function MobileTimelineView({
   );
 
   const timeGroups = useMemo(
-    () => groupEventsByHour(filteredEvents),
-    [filteredEvents]
+    () => groupEventsByHour(filteredEvents, timeZone),
+    [filteredEvents, timeZone]
   );
 
+  // Hour group that is playing now: the last one that already started
+  const nowGroupLabel = useMemo(() => {
+    if (nowMinute === null) return null;
+    const started = timeGroups.filter(
+      (g) => g.events[0].startMinutes <= nowMinute
+    );
+    return started.length > 0 ? started[started.length - 1].label : null;
+  }, [timeGroups, nowMinute]);
+
+  // Scroll to it once per day, not on every clock tick
+  useEffect(() => {
+    if (!nowGroupLabel || scrolledToNowRef.current === schedule.day) return;
+    scrolledToNowRef.current = schedule.day;
+    if (revealEventId) return;
+    nowGroupRef.current?.scrollIntoView({ behavior: 'smooth', block: 'start' });
+  }, [nowGroupLabel, schedule.day]);
+
   const totalSelected = useMemo(
     () => allEvents.filter((e) => selectedIds.has(e.id)).length,
     [allEvents, selectedIds]
@@ -214,10 +338,19 @@ export function MobileTimelineView({
       {/* Timeline */}
       <div className="mobile-timeline__list">
         {timeGroups.map((group) => (
-          <div key={group.label} className="mobile-time-group">
+          <div
+            key={group.label}
+            ref={group.label === nowGroupLabel ? nowGroupRef : undefined}
+            className={`mobile-time-group ${group.label === nowGroupLabel ? 'mobile-time-group--now' : ''}`}
+          >
             <div className="mobile-time-group__header">
               <div className="mobile-time-group__line" />
-              <span className="mobile-time-group__label">{group.label}</span>
+              <span className="mobile-time-group__label">
+                {group.label}
+                {group.label === nowGroupLabel && (
+                  <span className="mobile-time-group__now">Ahora</span>
+                )}
+              </span>
               <div className="mobile-time-group__line" />
             </div>
             <div className="mobile-time-group__events">
@@ -226,8 +359,14 @@ export function MobileTimelineView({
                   key={event.id}
                   event={event}
                   isSelected={selectedIds.has(event.id)}
+                  tier={tiers?.get(event.id)}
                   readOnly={readOnly}
                   onToggle={onToggle}
+                  timeZone={timeZone}
+                  conflicts={conflictsByEvent?.get(event.id)}
+                  attendees={attendance?.get(event.id)}
+                  isMostShared={mostSharedIds?.has(event.id)}
+                  onShowDetails={onShowDetails}
                 />
               ))}
             </div>
@@ -0,0 +1,126 @@
+import type { Agenda, FestivalEvent, StageNow } from '../lib/types';
+import { formatClock } from '../lib/time';
+import { formatTimeUntil } from '../lib/live';
+import { ClockIcon, StarIcon } from './Icons';
+
+// ─── Live mode: "Ahora" / "A continuación" ─────────────────────────
+
+interface NowPanelProps {
+  now: Date;
+  /** Current and next set of every stage of tonight */
+  stagesNow: StageNow[];
+  /** Next shows of the user's agenda tonight */
+  upcoming: FestivalEvent[];
+  /** Agenda shows on stage right now */
+  playingInAgenda: FestivalEvent[];
+  tiers: Agenda;
+  hasAgenda: boolean;
+  onJump: (event: FestivalEvent) => void;
+  timeZone: string;
+  /** Set when the clock comes from `?now=` */
+  isSimulated: boolean;
+}
+
+export function NowPanel({
+  now,
+  stagesNow,
+  upcoming,
+  playingInAgenda,
+  tiers,
+  hasAgenda,
+  onJump,
+  timeZone,
+  isSimulated,
+}: NowPanelProps) {
+  const activeStages = stagesNow.filter((s) => s.current || s.next);
+
+  const renderShow = (event: FestivalEvent, detail: string) => {
+    const tier = tiers.get(event.id);
+    return (
+      <button
+        type="button"
+        className={`now-panel__show ${tier ? 'now-panel__show--selected' : ''}`}
+        onClick={() => onJump(event)}
+      >
+        <span className="now-panel__artist">
+          {tier === 'must' && <StarIcon size={12} />}
+          {event.artist}
+        </span>
+        <span className="now-panel__detail">{detail}</span>
+      </button>
+    );
+  };
+
+  return (
+    <section className="now-panel" aria-label="En vivo">
+      <div className="now-panel__card">
+        <h3 className="now-panel__title">
+          <span className="now-panel__live-dot" aria-hidden="true" />
+          Ahora
+          <span className="now-panel__clock">
+            <ClockIcon size={12} />
+            {formatClock(now, timeZone)}
+            {isSimulated && ' (simulado)'}
+          </span>
+        </h3>
+        {activeStages.length === 0 ? (
+          <p className="now-panel__empty">No quedan shows esta noche.</p>
+        ) : (
+          <ul className="now-panel__list">
+            {activeStages.map(({ stage, current, next }) => (
+              <li key={stage} className="now-panel__row">
+                <span className="now-panel__stage" data-stage={stage}>
+                  <span className="now-panel__dot" data-stage={stage} />
+                  {stage}
+                </span>
+                {current
+                  ? renderShow(
+                      current,
+                      `hasta las ${formatClock(current.endAt, timeZone)}`
+                    )
+                  : next &&
+                    renderShow(
+                      next,
+                      `${formatClock(next.startAt, timeZone)} · ${formatTimeUntil(next.startAt, now)}`
+                    )}
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      <div className="now-panel__card">
+        <h3 className="now-panel__title">A continuación</h3>
+        {!hasAgenda ? (
+          <p className="now-panel__empty">
+            Agregá shows a tu agenda para ver acá qué sigue.
+          </p>
+        ) : playingInAgenda.length === 0 && upcoming.length === 0 ? (
+          <p className="now-panel__empty">
+            No quedan shows de tu agenda esta noche.
+          </p>
+        ) : (
+          <ul className="now-panel__list">
+            {playingInAgenda.map((event) => (
+              <li key={event.id} className="now-panel__row">
+                <span className="now-panel__badge">En vivo</span>
+                {renderShow(event, event.stage)}
+              </li>
+            ))}
+            {upcoming.map((event) => (
+              <li key={event.id} className="now-panel__row">
+                <span className="now-panel__when">
+                  {formatClock(event.startAt, timeZone)}
+                </span>
+                {renderShow(
+                  event,
+                  `${event.stage} · ${formatTimeUntil(event.startAt, now)}`
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </section>
+  );
+}
@@ -0,0 +1,147 @@
+import { useMemo } from 'react';
+import type { Agenda, AgendaTier, FestivalEvent } from '../lib/types';
+import { getEventTimeLabels } from '../lib/data';
+import { describeConflict, detectConflicts } from '../lib/conflicts';
+import { planItinerary } from '../lib/planner';
+import { DEFAULT_TIER, TIER_LABELS, TIER_ORDER } from '../lib/constants';
+import { CheckIcon, XIcon } from './Icons';
+
+// ─── Best itinerary planner panel ──────────────────────────────────
+
+interface PlannerPanelProps {
+  /** Current agenda (the wishlist), in chronological order */
+  selectedEvents: FestivalEvent[];
+  tiers: Agenda;
+  onTierChange: (id: string, tier: AgendaTier) => void;
+  onApply: (ids: Set<string>) => void;
+  onClose: () => void;
+  timeZone: string;
+}
+
+export function PlannerPanel({
+  selectedEvents,
+  tiers,
+  onTierChange,
+  onApply,
+  onClose,
+  timeZone,
+}: PlannerPanelProps) {
+  const itinerary = useMemo(
+    () => planItinerary(selectedEvents, tiers),
+    [selectedEvents, tiers]
+  );
+
+  const keptIds = useMemo(
+    () => new Set(itinerary.kept.map((e) => e.id)),
+    [itinerary]
+  );
+
+  const currentConflictCount = useMemo(
+    () => detectConflicts(selectedEvents).length,
+    [selectedEvents]
+  );
+
+  return (
+    <section className="planner-panel" aria-labelledby="planner-panel-title">
+      <div className="planner-panel__header">
+        <h3 id="planner-panel-title" className="planner-panel__title">
+          Mejor recorrido
+        </h3>
+        <button
+          className="planner-panel__close"
+          onClick={onClose}
+          aria-label="Cerrar planificador"
+        >
+          <XIcon size={16} />
+        </button>
+      </div>
+
+      <p className="planner-panel__intro">
+        Marcá qué tan importante es cada show y armamos el recorrido sin
+        choques, contando el tiempo para caminar entre escenarios.
+      </p>
+
+      <ul className="planner-panel__wishlist">
+        {selectedEvents.map((event) => {
+          const isKept = keptIds.has(event.id);
+          const { start, end } = getEventTimeLabels(event, timeZone);
+          return (
+            <li
+              key={event.id}
+              className={`planner-panel__item ${isKept ? '' : 'planner-panel__item--dropped'}`}
+            >
+              <span
+                className="planner-panel__status"
+                aria-label={isKept ? 'Entra' : 'Queda afuera'}
+              >
+                {isKept ? <CheckIcon size={14} /> : <XIcon size={14} />}
+              </span>
+              <span className="planner-panel__show">
+                <span className="planner-panel__artist">{event.artist}</span>
+                <span className="planner-panel__meta">
+                  Día {event.day} · {event.stage} · {start} - {end}
+                </span>
+              </span>
+              <select
+                className="planner-panel__priority"
+                value={tiers.get(event.id) ?? DEFAULT_TIER}
+                onChange={(e) =>
+                  onTierChange(event.id, e.target.value as AgendaTier)
+                }
+                aria-label={`Prioridad de ${event.artist}`}
+              >
+                {TIER_ORDER.map((tier) => (
+                  <option key={tier} value={tier}>
+                    {TIER_LABELS[tier]}
+                  </option>
+                ))}
+              </select>
+            </li>
+          );
+        })}
+      </ul>
+
+      <div className="planner-panel__compare">
+        <div>
+          <span className="planner-panel__compare-label">Tu agenda</span>
+          {selectedEvents.length} shows · {currentConflictCount} choque
+          {currentConflictCount !== 1 ? 's' : ''}
+        </div>
+        <div>
+          <span className="planner-panel__compare-label">Recorrido</span>
+          {itinerary.kept.length} shows · sin choques
+        </div>
+      </div>
+
+      {itinerary.dropped.length > 0 && (
+        <div className="planner-panel__dropped">
+          <h4>Quedan afuera</h4>
+          <ul>
+            {itinerary.dropped.map(({ event, conflicts }) => (
+              <li key={event.id}>
+                <strong>{event.artist}</strong> (
+                {TIER_LABELS[tiers.get(event.id) ?? DEFAULT_TIER]})
+                {conflicts.length > 0 &&
+                  ` — ${conflicts.map((c) => describeConflict(c, event.id)).join('; ')}`}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      <div className="planner-panel__actions">
+        <button
+          className="btn-primary"
+          onClick={() => onApply(keptIds)}
+          disabled={itinerary.dropped.length === 0}
+        >
+          <CheckIcon />
+          Aplicar a mi agenda
+        </button>
+        <button className="btn-secondary" onClick={onClose}>
+          Cerrar
+        </button>
+      </div>
+    </section>
+  );
+}
@@ -0,0 +1,104 @@
+import { useEffect, useMemo } from 'react';
+import { createPortal } from 'react-dom';
+import { FESTIVAL_TITLE, SITE_HOST } from '../lib/festival';
+import {
+  getPocketLegendNotes,
+  getPocketPages,
+  getPocketPanels,
+} from '../lib/pocket-agenda';
+import type { PocketAgendaInput, PocketPanel } from '../lib/pocket-agenda';
+
+// ─── Pocket agenda (print view) ────────────────────────────────────
+// Only exists while printing: it's mounted straight into <body>, opens
+// the print dialog and unmounts on `afterprint`. src/styles/print.css
+// hides the rest of the page meanwhile and lays the panels out on A4.
+
+interface PocketAgendaProps {
+  input: PocketAgendaInput;
+  onDone: () => void;
+}
+
+const BODY_CLASS = 'printing-pocket-agenda';
+
+function Panel({ panel }: { panel: PocketPanel }) {
+  return (
+    <article className="pocket-panel">
+      <header className="pocket-panel__header">
+        <p className="pocket-panel__site">
+          <span>{FESTIVAL_TITLE}</span>
+          <span>{SITE_HOST}</span>
+        </p>
+        <h2 className="pocket-panel__title">
+          {panel.title}
+          {panel.continued && ' (cont.)'}
+        </h2>
+      </header>
+
+      <ol className="pocket-panel__rows">
+        {panel.rows.map((row) => (
+          <li key={row.event.id} className="pocket-panel__row">
+            <span className="pocket-panel__time">
+              {row.start}–{row.end}
+            </span>
+            <span className="pocket-panel__artist">
+              {row.tier === 'must' && '★ '}
+              {row.event.artist}
+            </span>
+            <span className="pocket-panel__stage" data-stage={row.event.stage}>
+              {row.event.stage}
+              {row.tier === 'maybe' && ' · si da'}
+            </span>
+            {row.clashes.map((clash) => (
+              <span key={clash} className="pocket-panel__clash">
+                ⚠ {clash}
+              </span>
+            ))}
+          </li>
+        ))}
+      </ol>
+
+      <footer className="pocket-panel__legend">
+        <p className="pocket-panel__stages">
+          {panel.stages.map((stage) => (
+            <span key={stage} data-stage={stage}>
+              {stage}
+            </span>
+          ))}
+        </p>
+        <p className="pocket-panel__notes">
+          {getPocketLegendNotes(panel).join(' · ')}
+        </p>
+      </footer>
+    </article>
+  );
+}
+
+export function PocketAgenda({ input, onDone }: PocketAgendaProps) {
+  const pages = useMemo(() => getPocketPages(getPocketPanels(input)), [input]);
+
+  useEffect(() => {
+    document.body.classList.add(BODY_CLASS);
+    window.addEventListener('afterprint', onDone);
+    window.print();
+    return () => {
+      window.removeEventListener('afterprint', onDone);
+      document.body.classList.remove(BODY_CLASS);
+    };
+  }, [onDone]);
+
+  return createPortal(
+    <div className="pocket-agenda">
+      {pages.map((panels, i) => (
+        <section key={i} className="pocket-agenda__page">
+          {panels.map((panel) => (
+            <Panel
+              key={`${panel.day}-${panel.rows[0].event.id}`}
+              panel={panel}
+            />
+          ))}
+        </section>
+      ))}
+    </div>,
+    document.body
+  );
+}
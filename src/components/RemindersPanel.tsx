@@ -0,0 +1,80 @@
+import { useState } from 'react';
+import type { ReminderSettings } from '../lib/types';
+import {
+  REMINDER_LEAD_OPTIONS,
+  getNotificationSupport,
+  requestNotificationPermission,
+  supportsNotificationTriggers,
+} from '../lib/reminders';
+import type { NotificationSupport } from '../lib/reminders';
+import { BellIcon } from './Icons';
+
+// ─── Show reminders (opt-in) ───────────────────────────────────────
+
+interface RemindersPanelProps {
+  settings: ReminderSettings;
+  onChange: (settings: ReminderSettings) => void;
+}
+
+export function RemindersPanel({ settings, onChange }: RemindersPanelProps) {
+  const [support, setSupport] = useState<NotificationSupport>(
+    getNotificationSupport
+  );
+  const isOn = settings.enabled && support === 'granted';
+
+  const toggle = async () => {
+    if (isOn) {
+      onChange({ ...settings, enabled: false });
+      return;
+    }
+    const permission = await requestNotificationPermission();
+    setSupport(permission);
+    if (permission === 'granted') onChange({ ...settings, enabled: true });
+  };
+
+  if (support === 'unsupported') return null;
+
+  return (
+    <div className="reminders-panel">
+      <button
+        className={`reminders-panel__toggle ${isOn ? 'reminders-panel__toggle--on' : ''}`}
+        onClick={toggle}
+        aria-pressed={isOn}
+        disabled={support === 'denied'}
+      >
+        <BellIcon size={16} />
+        {isOn ? 'Recordatorios activados' : 'Avisarme antes de cada show'}
+      </button>
+
+      <select
+        className="reminders-panel__lead"
+        value={settings.leadMinutes}
+        onChange={(e) =>
+          onChange({ ...settings, leadMinutes: Number(e.target.value) })
+        }
+        aria-label="Cuánto antes avisar"
+      >
+        {REMINDER_LEAD_OPTIONS.map((minutes) => (
+          <option key={minutes} value={minutes}>
+            {minutes} min antes
+          </option>
+        ))}
+      </select>
+
+      {support === 'denied' ? (
+        <p className="reminders-panel__note">
+          Las notificaciones están bloqueadas para este sitio. Habilitalas desde
+          la configuración del navegador.
+        </p>
+      ) : (
+        isOn &&
+        !supportsNotificationTriggers() && (
+          <p className="reminders-panel__note">
+            En este navegador los avisos llegan mientras la app está abierta o
+            en segundo plano; instalala para que también lleguen cerrada.
+          </p>
+        )
+      )}
+    </div>
+  );
+}
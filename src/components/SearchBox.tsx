@@ -0,0 +1,183 @@
+import { useId, useMemo, useRef, useState } from 'react';
+import type { KeyboardEvent } from 'react';
+import type { FestivalEvent } from '../lib/types';
+import { getEventTimeLabels } from '../lib/data';
+import { searchEvents } from '../lib/search';
+import { CheckIcon, SearchIcon, XIcon } from './Icons';
+
+// ─── Artist search (combobox) ──────────────────────────────────────
+// Enter jumps to the highlighted set; Shift+Enter adds or removes it
+// from the agenda without leaving the search. Options can't hold
+// buttons, so the +/✓ mark is only a mouse shortcut for Shift+Enter.
+
+interface SearchBoxProps {
+  events: FestivalEvent[];
+  selectedIds: Set<string>;
+  readOnly: boolean;
+  onJump: (event: FestivalEvent) => void;
+  onToggle: (id: string) => void;
+  timeZone: string;
+}
+
+export function SearchBox({
+  events,
+  selectedIds,
+  readOnly,
+  onJump,
+  onToggle,
+  timeZone,
+}: SearchBoxProps) {
+  const [query, setQuery] = useState('');
+  const [isOpen, setIsOpen] = useState(false);
+  const [activeIndex, setActiveIndex] = useState(0);
+  const inputRef = useRef<HTMLInputElement>(null);
+  const listId = useId();
+  const hintId = `${listId}-hint`;
+
+  const results = useMemo(() => searchEvents(events, query), [events, query]);
+  const showList = isOpen && query.trim() !== '';
+
+  const jump = (event: FestivalEvent) => {
+    setIsOpen(false);
+    onJump(event);
+  };
+
+  const handleKeyDown = (e: KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+      e.preventDefault();
+      setIsOpen(true);
+      if (results.length === 0) return;
+      const step = e.key === 'ArrowDown' ? 1 : -1;
+      setActiveIndex((i) => (i + step + results.length) % results.length);
+    } else if (e.key === 'Enter' && showList && results[activeIndex]) {
+      e.preventDefault();
+      const { event } = results[activeIndex];
+      if (e.shiftKey) {
+        if (!readOnly) onToggle(event.id);
+      } else {
+        jump(event);
+      }
+    } else if (e.key === 'Escape') {
+      if (showList) {
+        setIsOpen(false);
+      } else {
+        setQuery('');
+      }
+    }
+  };
+
+  return (
+    <div className="search-box">
+      <div className="search-box__field">
+        <SearchIcon size={16} />
+        <input
+          ref={inputRef}
+          type="search"
+          className="search-box__input"
+          placeholder="Buscar artista..."
+          value={query}
+          onChange={(e) => {
+            setQuery(e.target.value);
+            setActiveIndex(0);
+            setIsOpen(true);
+          }}
+          onFocus={() => setIsOpen(true)}
+          onBlur={() => setIsOpen(false)}
+          onKeyDown={handleKeyDown}
+          role="combobox"
+          aria-label="Buscar artista"
+          aria-autocomplete="list"
+          aria-expanded={showList}
+          aria-controls={listId}
+          aria-activedescendant={
+            showList && results[activeIndex]
+              ? `${listId}-${results[activeIndex].event.id}`
+              : undefined
+          }
+          autoComplete="off"
+          spellCheck={false}
+        />
+        {query && (
+          <button
+            className="search-box__clear"
+            onClick={() => {
+              setQuery('');
+              inputRef.current?.focus();
+            }}
+            aria-label="Borrar búsqueda"
+          >
+            <XIcon size={14} />
+          </button>
+        )}
+      </div>
+
+      {showList && (
+        <ul
+          id={listId}
+          className="search-box__results"
+          role="listbox"
+          aria-label="Resultados"
+          // Keep focus in the input while clicking results
+          onMouseDown={(e) => e.preventDefault()}
+        >
+          {results.length === 0 && (
+            <li className="search-box__empty" role="presentation">
+              No encontramos ese artista.
+            </li>
+          )}
+          {results.map(({ event }, index) => {
+            const { start, end } = getEventTimeLabels(event, timeZone);
+            const isSelected = selectedIds.has(event.id);
+            return (
+              <li
+                key={event.id}
+                id={`${listId}-${event.id}`}
+                role="option"
+                aria-selected={index === activeIndex}
+                aria-describedby={readOnly ? undefined : hintId}
+                className={`search-box__result ${index === activeIndex ? 'search-box__result--active' : ''}`}
+                data-stage={event.stage}
+                onClick={() => jump(event)}
+                onMouseEnter={() => setActiveIndex(index)}
+              >
+                <span
+                  className="search-box__result-dot"
+                  data-stage={event.stage}
+                />
+                <span className="search-box__result-text">
+                  <span className="search-box__result-artist">
+                    {event.artist}
+                  </span>
+                  <span className="search-box__result-meta">
+                    Día {event.day} · {event.stage} · {start} - {end}
+                    {isSelected && ' · En tu agenda'}
+                  </span>
+                </span>
+                {!readOnly && (
+                  <span
+                    aria-hidden="true"
+                    className={`search-box__toggle ${isSelected ? 'search-box__toggle--selected' : ''}`}
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      onToggle(event.id);
+                    }}
+                    title={
+                      isSelected ? 'Quitar de mi agenda' : 'Agregar a mi agenda'
+                    }
+                  >
+                    {isSelected ? <CheckIcon size={14} /> : '+'}
+                  </span>
+                )}
+              </li>
+            );
+          })}
+          {results.length > 0 && !readOnly && (
+            <li id={hintId} className="search-box__hint" role="presentation">
+              Enter: ir al show · Shift+Enter: agregar / quitar
+            </li>
+          )}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -1,20 +1,26 @@
 import { PX_PER_MINUTE } from '../lib/constants';
+import { formatGridTime } from '../lib/time';
 
 // ─── Time Axis (left column labels) ───────────────────────────────
 
-function formatHour(normalizedMin: number): string {
-  const totalMin = normalizedMin + 14 * 60; // add back grid base (14:00)
-  const h = Math.floor(totalMin / 60) % 24;
-  const m = totalMin % 60;
-  return `${h.toString().padStart(2, '0')}:${m.toString().padStart(2, '0')}`;
-}
-
 interface TimeAxisProps {
   startMinute: number;
   endMinute: number;
+  /** Festival night the grid belongs to (YYYY-MM-DD) */
+  date: string;
+  /** Zone the labels are shown in */
+  timeZone: string;
+  /** Live mode: current time, in grid minutes */
+  nowMinute?: number | null;
 }
 
-export function TimeAxis({ startMinute, endMinute }: TimeAxisProps) {
+export function TimeAxis({
+  startMinute,
+  endMinute,
+  date,
+  timeZone,
+  nowMinute = null,
+}: TimeAxisProps) {
   const hours: number[] = [];
   for (let m = startMinute; m <= endMinute; m += 60) {
     hours.push(m);
@@ -31,9 +37,17 @@ export function TimeAxis({ startMinute, endMinute }: TimeAxisProps) {
             top: `${(m - startMinute) * PX_PER_MINUTE + LABEL_OFFSET}px`,
           }}
         >
-          {formatHour(m)}
+          {formatGridTime(date, m, timeZone)}
         </div>
       ))}
+      {nowMinute !== null && (
+        <div
+          className="time-now"
+          style={{ top: `${(nowMinute - startMinute) * PX_PER_MINUTE}px` }}
+        >
+          {formatGridTime(date, nowMinute, timeZone)}
+        </div>
+      )}
     </>
   );
 }
@@ -1,19 +1,102 @@
 import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
-import type { SerializedSchedule } from '../lib/types';
+import type {
+  Agenda,
+  AgendaTier,
+  FestivalEvent,
+  ReminderSettings,
+  GroupAttendee,
+  GroupMember,
+  SerializedSchedule,
+  LineupChange,
+} from '../lib/types';
 import { hydrateEvent } from '../lib/types';
-import { PX_PER_MINUTE } from '../lib/constants';
 import {
-  getSelectedIdsFromURL,
+  DEFAULT_TIER,
+  PX_PER_MINUTE,
+  TIER_LABELS,
+  TIER_ORDER,
+} from '../lib/constants';
+import {
+  getAgendaFromURL,
+  getDataVersionFromURL,
+  getGenresFromURL,
+  getShowFromURL,
+  getAddFromURL,
+  getSimulatedNowFromURL,
   isReadOnlyFromURL,
   isShowOnlySelectedFromURL,
   updateURL,
 } from '../lib/url-state';
+import {
+  getChangelog,
+  getChangesSince,
+  getLineupVersion,
+  getSeenVersion,
+  setSeenVersion,
+} from '../lib/changelog';
+import {
+  FESTIVAL_TIMEZONE,
+  getTimeDisplayModePreference,
+  getTimeZoneLabel,
+  getViewerTimeZone,
+  gridMinutesToDate,
+  setTimeDisplayModePreference,
+  viewerTimeZoneDiffers,
+} from '../lib/time';
+import type { TimeDisplayMode } from '../lib/time';
+import {
+  describeConflict,
+  detectConflicts,
+  groupConflictsByEvent,
+} from '../lib/conflicts';
+import {
+  getGroupAttendance,
+  getMostSharedIds,
+  loadGroup,
+  saveGroup,
+} from '../lib/group';
+import { getGenreTags, matchesGenres } from '../lib/artists';
+import {
+  DEFAULT_REMINDER_SETTINGS,
+  loadReminderSettings,
+  saveReminderSettings,
+} from '../lib/reminders';
+import {
+  getCurrentDay,
+  getLiveSchedule,
+  getNowGridMinute,
+  getStagesNow,
+  getUpcoming,
+  isPlaying,
+} from '../lib/live';
 import { useIsMobile } from '../hooks/useIsMobile';
-import { CheckIcon, ListIcon, GridIcon, EyeOffIcon } from './Icons';
+import { useNow } from '../hooks/useNow';
+import { useReminders } from '../hooks/useReminders';
+import {
+  AlertTriangleIcon,
+  CheckIcon,
+  ListIcon,
+  GridIcon,
+  EyeOffIcon,
+  StarIcon,
+  UsersIcon,
+} from './Icons';
 import { EventBlock } from './EventBlock';
 import { TimeAxis } from './TimeAxis';
 import { ActionPanel } from './ActionPanel';
 import { MobileTimelineView } from './MobileTimelineView';
+import { ChangesPanel } from './ChangesPanel';
+import { PlannerPanel } from './PlannerPanel';
+import { GroupPanel } from './GroupPanel';
+import { ArtistSheet } from './ArtistSheet';
+import { AddToCalendar } from './AddToCalendar';
+import { SearchBox } from './SearchBox';
+import { GenreFilter } from './GenreFilter';
+import { NowPanel } from './NowPanel';
+import { RemindersPanel } from './RemindersPanel';
+
+/** Lets the day / stage switch render before scrolling to a search result */
+const REVEAL_DELAY_MS = 60;
 
 // ─── Main App Component ────────────────────────────────────────────
 
@@ -23,18 +106,61 @@ interface TimetableAppProps {
 
 export default function TimetableApp({ schedules }: TimetableAppProps) {
   const [mounted, setMounted] = useState(false);
-  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [agenda, setAgenda] = useState<Agenda>(new Map());
   const [readOnly, setReadOnly] = useState(false);
   const [showOnlySelected, setShowOnlySelected] = useState(false);
+  const [genreFilter, setGenreFilter] = useState<Set<string>>(new Set());
   const [activeDay, setActiveDay] = useState(1);
   const [viewMode, setViewMode] = useState<'auto' | 'grid' | 'list'>('auto');
+  const [lineupChanges, setLineupChanges] = useState<LineupChange[]>([]);
+  const [timeDisplayMode, setTimeDisplayMode] =
+    useState<TimeDisplayMode>('festival');
+  const [canShowViewerTime, setCanShowViewerTime] = useState(false);
+  const [isPlannerOpen, setIsPlannerOpen] = useState(false);
+  const [friends, setFriends] = useState<GroupMember[]>([]);
+  const [isGroupMode, setIsGroupMode] = useState(false);
+  const [detailsEventId, setDetailsEventId] = useState<string | null>(null);
+  const [revealRequest, setRevealRequest] = useState<{
+    id: string;
+    key: number;
+  } | null>(null);
+  const [simulatedNow, setSimulatedNow] = useState<Date | null>(null);
+  const [reminderSettings, setReminderSettings] = useState<ReminderSettings>(
+    DEFAULT_REMINDER_SETTINGS
+  );
   const isMobile = useIsMobile();
+  const now = useNow(simulatedNow);
   const hasHydratedRef = useRef(false);
 
   // Determine effective view
   const showMobileView =
     viewMode === 'list' || (viewMode === 'auto' && isMobile);
 
+  // Hydrate all events with Date objects
+  const allEvents = useMemo(
+    () =>
+      schedules.flatMap((s) =>
+        s.stages.flatMap((st) => st.events.map(hydrateEvent))
+      ),
+    [schedules]
+  );
+
+  // Also hydrate events for the current schedule rendering
+  const hydratedSchedules = useMemo(
+    () =>
+      schedules.map((s) => ({
+        ...s,
+        stages: s.stages.map((st) => ({
+          ...st,
+          events: st.events.map(hydrateEvent),
+        })),
+      })),
+    [schedules]
+  );
+
+  // Ids of the current lineup, for the compact agenda encoding in the URL
+  const eventIds = useMemo(() => allEvents.map((e) => e.id), [allEvents]);
+
   // Ensure component is mounted on client
   useEffect(() => {
     setMounted(true);
@@ -43,69 +169,308 @@ export default function TimetableApp({ schedules }: TimetableAppProps) {
   // Hydrate from URL on mount
   useEffect(() => {
     if (!mounted) return;
-    setSelectedIds(getSelectedIdsFromURL());
-    setReadOnly(isReadOnlyFromURL());
+    const urlAgenda = getAgendaFromURL(eventIds);
+    const urlReadOnly = isReadOnlyFromURL();
+
+    // Opened from an artist page: add that show to the agenda
+    const addId = getAddFromURL();
+    const added = addId && eventIds.includes(addId) ? addId : null;
+    if (added && !urlReadOnly && !urlAgenda.has(added)) {
+      urlAgenda.set(added, DEFAULT_TIER);
+    }
+    setAgenda(urlAgenda);
+    setReadOnly(urlReadOnly);
     setShowOnlySelected(isShowOnlySelectedFromURL());
+    setGenreFilter(getGenresFromURL());
+
+    // During the festival, open on the day being played (or about to be)
+    const simulated = getSimulatedNowFromURL();
+    setSimulatedNow(simulated);
+    const currentDay = getCurrentDay(
+      hydratedSchedules,
+      simulated ?? new Date()
+    );
+    if (currentDay) setActiveDay(currentDay.day);
+
+    // Opened from a reminder notification or an artist page: go to that show
+    const showId = getShowFromURL() ?? added;
+    const show = showId ? allEvents.find((e) => e.id === showId) : undefined;
+    if (show) {
+      setActiveDay(show.day);
+      setRevealRequest({ id: show.id, key: Date.now() });
+    }
+    setReminderSettings(loadReminderSettings());
+    setFriends(loadGroup(eventIds));
+
+    // "Show in my timezone" only makes sense when the clocks differ
+    const differs = schedules.some((s) => viewerTimeZoneDiffers(s.date));
+    setCanShowViewerTime(differs);
+    setTimeDisplayMode(differs ? getTimeDisplayModePreference() : 'festival');
+
+    // Compare against the oldest version this user (or the shared link) saw
+    const currentVersion = getLineupVersion();
+    const seenVersions = [getSeenVersion(), getDataVersionFromURL()].filter(
+      (v): v is number => v !== null
+    );
+    const lastSeen =
+      seenVersions.length > 0 ? Math.min(...seenVersions) : currentVersion;
+    if (lastSeen < currentVersion) {
+      setLineupChanges(getChangesSince(getChangelog(), lastSeen));
+    } else {
+      setSeenVersion(currentVersion);
+    }
+
     hasHydratedRef.current = true;
   }, [mounted]);
 
   // Sync to URL on change
   useEffect(() => {
     if (!mounted || !hasHydratedRef.current) return;
-    updateURL(selectedIds, readOnly, showOnlySelected);
-  }, [selectedIds, readOnly, showOnlySelected]);
+    updateURL(agenda, eventIds, readOnly, showOnlySelected, genreFilter);
+  }, [agenda, readOnly, showOnlySelected, genreFilter]);
+
+  const selectedIds = useMemo(() => new Set(agenda.keys()), [agenda]);
 
   const toggleArtist = useCallback((id: string) => {
-    setSelectedIds((prev) => {
-      const next = new Set(prev);
+    setAgenda((prev) => {
+      const next = new Map(prev);
       if (next.has(id)) {
         next.delete(id);
       } else {
-        next.add(id);
+        next.set(id, DEFAULT_TIER);
       }
       return next;
     });
   }, []);
 
+  const changeTier = useCallback((id: string, tier: AgendaTier) => {
+    setAgenda((prev) => (prev.has(id) ? new Map(prev).set(id, tier) : prev));
+  }, []);
+
+  /** Selected tags cycle must → want → maybe → must */
+  const cycleTier = useCallback((id: string) => {
+    setAgenda((prev) => {
+      const current = prev.get(id);
+      if (!current) return prev;
+      const next =
+        TIER_ORDER[(TIER_ORDER.indexOf(current) + 1) % TIER_ORDER.length];
+      return new Map(prev).set(id, next);
+    });
+  }, []);
+
+  const changeReminderSettings = useCallback((settings: ReminderSettings) => {
+    setReminderSettings(settings);
+    saveReminderSettings(settings);
+  }, []);
+
   const switchToEdit = useCallback(() => {
     setReadOnly(false);
   }, []);
 
-  // Hydrate all events with Date objects
-  const allEvents = useMemo(
+  const toggleGenre = useCallback((slug: string) => {
+    setGenreFilter((prev) => {
+      const next = new Set(prev);
+      if (next.has(slug)) {
+        next.delete(slug);
+      } else {
+        next.add(slug);
+      }
+      return next;
+    });
+  }, []);
+
+  const clearGenres = useCallback(() => {
+    setGenreFilter(new Set());
+  }, []);
+
+  // Genres across the whole lineup, so the chips don't jump between days
+  const genreTags = useMemo(() => getGenreTags(allEvents), [allEvents]);
+
+  const changeTimeDisplayMode = useCallback((mode: TimeDisplayMode) => {
+    setTimeDisplayMode(mode);
+    setTimeDisplayModePreference(mode);
+  }, []);
+
+  const displayTimeZone =
+    timeDisplayMode === 'local' ? getViewerTimeZone() : FESTIVAL_TIMEZONE;
+
+  // Reminders follow your own agenda, not a shared one being viewed
+  useReminders(
+    reminderSettings,
+    agenda,
+    allEvents,
+    eventIds,
+    displayTimeZone,
+    mounted && hasHydratedRef.current && !readOnly
+  );
+
+  const applyItinerary = useCallback((ids: Set<string>) => {
+    setAgenda((prev) => new Map([...prev].filter(([id]) => ids.has(id))));
+    setIsPlannerOpen(false);
+  }, []);
+
+  const addFriend = useCallback(
+    (member: GroupMember) => {
+      setFriends((prev) => {
+        const next = [...prev, member];
+        saveGroup(next, eventIds);
+        return next;
+      });
+    },
+    [eventIds]
+  );
+
+  const removeFriend = useCallback(
+    (index: number) => {
+      setFriends((prev) => {
+        const next = prev.filter((_, i) => i !== index);
+        saveGroup(next, eventIds);
+        return next;
+      });
+    },
+    [eventIds]
+  );
+
+  const dismissLineupChanges = useCallback(() => {
+    setSeenVersion(getLineupVersion());
+    setLineupChanges([]);
+  }, []);
+
+  const selectedEvents = useMemo(
     () =>
-      schedules.flatMap((s) =>
-        s.stages.flatMap((st) => st.events.map(hydrateEvent))
-      ),
-    [schedules]
+      allEvents
+        .filter((e) => selectedIds.has(e.id))
+        .sort((a, b) => a.startAt.getTime() - b.startAt.getTime()),
+    [allEvents, selectedIds]
   );
 
-  // Also hydrate events for the current schedule rendering
-  const hydratedSchedules = useMemo(
+  const detailsEvent = detailsEventId
+    ? allEvents.find((e) => e.id === detailsEventId)
+    : undefined;
+
+  // Overlaps and tight stage-to-stage transfers in the agenda
+  const conflicts = useMemo(
+    () => detectConflicts(selectedEvents),
+    [selectedEvents]
+  );
+  const conflictsByEvent = useMemo(
+    () => groupConflictsByEvent(conflicts),
+    [conflicts]
+  );
+
+  // Group view: the user's own agenda (when editing) plus saved friends
+  const includesYou = !readOnly && agenda.size > 0;
+  const groupMembers = useMemo<GroupMember[]>(
+    () => (includesYou ? [{ name: 'Vos', agenda }, ...friends] : friends),
+    [includesYou, agenda, friends]
+  );
+  const attendance = useMemo(
     () =>
-      schedules.map((s) => ({
-        ...s,
-        stages: s.stages.map((st) => ({
-          ...st,
-          events: st.events.map(hydrateEvent),
-        })),
-      })),
-    [schedules]
+      isGroupMode
+        ? getGroupAttendance(groupMembers)
+        : new Map<string, GroupAttendee[]>(),
+    [isGroupMode, groupMembers]
+  );
+  const mostSharedIds = useMemo(
+    () => getMostSharedIds(allEvents, attendance),
+    [allEvents, attendance]
+  );
+  const mostSharedEvents = useMemo(
+    () =>
+      allEvents
+        .filter((e) => mostSharedIds.has(e.id))
+        .sort((a, b) => a.startAt.getTime() - b.startAt.getTime()),
+    [allEvents, mostSharedIds]
   );
 
+  // Shows kept by the "only selected" filter: in group mode, anyone's picks
+  const visibleIds = useMemo(
+    () =>
+      isGroupMode
+        ? new Set([...selectedIds, ...attendance.keys()])
+        : selectedIds,
+    [isGroupMode, selectedIds, attendance]
+  );
+
+  // Jump to a search result: switch day, then scroll to the set and flash it
+  const jumpToEvent = useCallback(
+    (event: FestivalEvent) => {
+      setActiveDay(event.day);
+      if (showOnlySelected && !visibleIds.has(event.id)) {
+        setShowOnlySelected(false);
+      }
+      if (!matchesGenres(event, genreFilter)) {
+        setGenreFilter(new Set());
+      }
+      setRevealRequest({ id: event.id, key: Date.now() });
+    },
+    [showOnlySelected, visibleIds, genreFilter]
+  );
+
+  useEffect(() => {
+    if (!revealRequest) return;
+    const timer = window.setTimeout(() => {
+      const element = document.querySelector<HTMLElement>(
+        `[data-event-id="${CSS.escape(revealRequest.id)}"]`
+      );
+      if (!element) return;
+      element.scrollIntoView({
+        behavior: 'smooth',
+        block: 'center',
+        inline: 'center',
+      });
+      element.focus({ preventScroll: true });
+      element.classList.remove('event-flash');
+      void element.offsetWidth; // restart the animation
+      element.classList.add('event-flash');
+      element.addEventListener(
+        'animationend',
+        () => element.classList.remove('event-flash'),
+        { once: true }
+      );
+    }, REVEAL_DELAY_MS);
+    return () => window.clearTimeout(timer);
+  }, [revealRequest]);
+
   const currentSchedule =
     hydratedSchedules.find((s) => s.day === activeDay) ?? hydratedSchedules[0];
 
-  // Filter schedule based on showOnlySelected - hide unselected events and empty stages
+  // Live mode: tonight's schedule while its last show hasn't ended
+  const liveSchedule = useMemo(
+    () => getLiveSchedule(hydratedSchedules, now),
+    [hydratedSchedules, now]
+  );
+
+  const stagesNow = useMemo(
+    () => (liveSchedule ? getStagesNow(liveSchedule.stages, now) : []),
+    [liveSchedule, now]
+  );
+
+  const agendaTonight = useMemo(
+    () =>
+      liveSchedule
+        ? selectedEvents.filter((e) => e.day === liveSchedule.day)
+        : [],
+    [liveSchedule, selectedEvents]
+  );
+
+  // Filter schedule based on showOnlySelected and the genre chips (both
+  // apply) - hide other events and empty stages. The mobile stage filter
+  // then narrows this down further
   const filteredSchedule = useMemo(() => {
-    if (!showOnlySelected || selectedIds.size === 0) {
+    const bySelection = showOnlySelected && visibleIds.size > 0;
+    if (!bySelection && genreFilter.size === 0) {
       return currentSchedule;
     }
 
     const filteredStages = currentSchedule.stages
       .map((stage) => ({
         ...stage,
-        events: stage.events.filter((event) => selectedIds.has(event.id)),
+        events: stage.events.filter(
+          (event) =>
+            (!bySelection || visibleIds.has(event.id)) &&
+            matchesGenres(event, genreFilter)
+        ),
       }))
       .filter((stage) => stage.events.length > 0);
 
@@ -113,7 +478,18 @@ export default function TimetableApp({ schedules }: TimetableAppProps) {
       ...currentSchedule,
       stages: filteredStages,
     };
-  }, [currentSchedule, showOnlySelected, selectedIds]);
+  }, [currentSchedule, showOnlySelected, visibleIds, genreFilter]);
+
+  // Current-time line, only on tonight's grid and within its hours
+  const nowMinute = useMemo(() => {
+    if (!liveSchedule || liveSchedule.day !== filteredSchedule.day) return null;
+    const minute = getNowGridMinute(filteredSchedule.date, now);
+    return minute !== null &&
+      minute >= filteredSchedule.startMinute &&
+      minute <= filteredSchedule.endMinute
+      ? minute
+      : null;
+  }, [liveSchedule, filteredSchedule, now]);
 
   const gridHeight =
     (filteredSchedule.endMinute - filteredSchedule.startMinute) * PX_PER_MINUTE;
@@ -151,6 +527,41 @@ export default function TimetableApp({ schedules }: TimetableAppProps) {
 
   return (
     <div style={{ width: '100%', maxWidth: '100vw' }}>
+      {/* Lineup changes since last visit */}
+      {lineupChanges.length > 0 && (
+        <ChangesPanel
+          changes={lineupChanges}
+          selectedIds={selectedIds}
+          onDismiss={dismissLineupChanges}
+          timeZone={displayTimeZone}
+        />
+      )}
+
+      {/* Artist search */}
+      <SearchBox
+        events={allEvents}
+        selectedIds={selectedIds}
+        readOnly={readOnly}
+        onJump={jumpToEvent}
+        onToggle={toggleArtist}
+        timeZone={displayTimeZone}
+      />
+
+      {/* Live mode */}
+      {liveSchedule && (
+        <NowPanel
+          now={now}
+          stagesNow={stagesNow}
+          upcoming={getUpcoming(agendaTonight, now)}
+          playingInAgenda={agendaTonight.filter((e) => isPlaying(e, now))}
+          tiers={agenda}
+          hasAgenda={agendaTonight.length > 0}
+          onJump={jumpToEvent}
+          timeZone={displayTimeZone}
+          isSimulated={simulatedNow !== null}
+        />
+      )}
+
       {/* Day Tabs */}
       <div className="day-tabs" role="tablist" aria-label="Días del festival">
         {hydratedSchedules.map((s) => (
@@ -163,10 +574,44 @@ export default function TimetableApp({ schedules }: TimetableAppProps) {
             onClick={() => setActiveDay(s.day)}
           >
             Día {s.day} — {s.label}
+            {liveSchedule?.day === s.day && (
+              <span className="day-tab__live">En vivo</span>
+            )}
           </button>
         ))}
       </div>
 
+      {/* Timezone toggle (only when the viewer is in another zone) */}
+      {canShowViewerTime && (
+        <div className="timezone-toggle">
+          <div
+            className="filter-toggle-group"
+            role="group"
+            aria-label="Zona horaria"
+          >
+            <button
+              className={`filter-toggle-option ${timeDisplayMode === 'festival' ? 'filter-toggle-option--active' : ''}`}
+              onClick={() => changeTimeDisplayMode('festival')}
+              aria-pressed={timeDisplayMode === 'festival'}
+            >
+              Hora del festival
+            </button>
+            <button
+              className={`filter-toggle-option ${timeDisplayMode === 'local' ? 'filter-toggle-option--active' : ''}`}
+              onClick={() => changeTimeDisplayMode('local')}
+              aria-pressed={timeDisplayMode === 'local'}
+            >
+              Mi hora (
+              {getTimeZoneLabel(
+                getViewerTimeZone(),
+                gridMinutesToDate(currentSchedule.date, 0)
+              )}
+              )
+            </button>
+          </div>
+        </div>
+      )}
+
       {/* View Toggle (visible on mobile) */}
       {isMobile && (
         <div className="mobile-view-toggle">
@@ -188,7 +633,7 @@ export default function TimetableApp({ schedules }: TimetableAppProps) {
 
       {/* Actions */}
       <ActionPanel
-        selectedIds={selectedIds}
+        agenda={agenda}
         allEvents={allEvents}
         readOnly={readOnly}
         onSwitchToEdit={switchToEdit}
@@ -199,6 +644,51 @@ export default function TimetableApp({ schedules }: TimetableAppProps) {
         }))}
         showOnlySelected={showOnlySelected}
         onToggleShowOnlySelected={() => setShowOnlySelected((prev) => !prev)}
+        onImportAgenda={setAgenda}
+        timeZone={displayTimeZone}
+      />
+
+      {/* Show reminders */}
+      {!readOnly && selectedIds.size > 0 && (
+        <RemindersPanel
+          settings={reminderSettings}
+          onChange={changeReminderSettings}
+        />
+      )}
+
+      {/* Group view */}
+      {isGroupMode ? (
+        <GroupPanel
+          friends={friends}
+          includesYou={includesYou}
+          onAdd={addFriend}
+          onRemove={removeFriend}
+          onClose={() => setIsGroupMode(false)}
+          attendance={attendance}
+          mostSharedEvents={mostSharedEvents}
+          eventIds={eventIds}
+          initialLink={readOnly ? window.location.href : ''}
+          timeZone={displayTimeZone}
+        />
+      ) : (
+        <div className="group-toggle">
+          <button
+            className="group-toggle__btn"
+            onClick={() => setIsGroupMode(true)}
+          >
+            <UsersIcon size={16} />
+            {readOnly ? 'Sumar a mi grupo' : 'Ver con amigos'}
+            {friends.length > 0 && ` (${friends.length})`}
+          </button>
+        </div>
+      )}
+
+      {/* Genre filter */}
+      <GenreFilter
+        tags={genreTags}
+        activeGenres={genreFilter}
+        onToggle={toggleGenre}
+        onClear={clearGenres}
       />
 
       {/* Mobile Timeline View */}
@@ -206,11 +696,19 @@ export default function TimetableApp({ schedules }: TimetableAppProps) {
         <MobileTimelineView
           schedule={filteredSchedule}
           selectedIds={selectedIds}
+          tiers={agenda}
           readOnly={readOnly}
           onToggle={toggleArtist}
           showOnlySelected={showOnlySelected}
           allSchedules={hydratedSchedules}
           onNavigateToDay={setActiveDay}
+          timeZone={displayTimeZone}
+          conflictsByEvent={conflictsByEvent}
+          attendance={attendance}
+          mostSharedIds={mostSharedIds}
+          onShowDetails={setDetailsEventId}
+          revealEventId={revealRequest?.id}
+          nowMinute={nowMinute}
         />
       ) : filteredSchedule.stages.length === 0 && showOnlySelected ? (
         /* Empty state when filter is active but no selected artists in current day */
@@ -240,6 +738,17 @@ export default function TimetableApp({ schedules }: TimetableAppProps) {
             </button>
           </div>
         </div>
+      ) : filteredSchedule.stages.length === 0 && genreFilter.size > 0 ? (
+        /* Empty state when no show of the day matches the chosen genres */
+        <div className="empty-filtered-state">
+          <div className="empty-filtered-state__content">
+            <EyeOffIcon size={48} />
+            <h3>Ningún show del día {currentSchedule.day} con esos géneros</h3>
+            <button className="btn-secondary" onClick={clearGenres}>
+              Ver todos los géneros
+            </button>
+          </div>
+        </div>
       ) : (
         /* Desktop Timetable Grid */
         <div
@@ -256,6 +765,9 @@ export default function TimetableApp({ schedules }: TimetableAppProps) {
                 <TimeAxis
                   startMinute={filteredSchedule.startMinute}
                   endMinute={filteredSchedule.endMinute}
+                  date={filteredSchedule.date}
+                  timeZone={displayTimeZone}
+                  nowMinute={nowMinute}
                 />
               </div>
             </div>
@@ -287,15 +799,31 @@ export default function TimetableApp({ schedules }: TimetableAppProps) {
                     />
                   ))}
 
+                  {nowMinute !== null && (
+                    <div
+                      className="now-line"
+                      style={{
+                        top: `${(nowMinute - filteredSchedule.startMinute) * PX_PER_MINUTE}px`,
+                      }}
+                      aria-hidden="true"
+                    />
+                  )}
+
                   {/* Event blocks */}
                   {stage.events.map((event) => (
                     <EventBlock
                       key={event.id}
                       event={event}
                       isSelected={selectedIds.has(event.id)}
+                      tier={agenda.get(event.id)}
                       readOnly={readOnly}
                       onToggle={toggleArtist}
                       gridStartMinute={filteredSchedule.startMinute}
+                      timeZone={displayTimeZone}
+                      conflicts={conflictsByEvent.get(event.id)}
+                      attendees={attendance.get(event.id)}
+                      isMostShared={mostSharedIds.has(event.id)}
+                      onShowDetails={setDetailsEventId}
                     />
                   ))}
                 </div>
@@ -318,14 +846,76 @@ export default function TimetableApp({ schedules }: TimetableAppProps) {
             >
               <CheckIcon /> Tu agenda ({selectedIds.size})
             </span>
+            {!readOnly && selectedEvents.length > 1 && !isPlannerOpen && (
+              <button
+                className="selected-planner-btn"
+                onClick={() => setIsPlannerOpen(true)}
+              >
+                Armar mejor recorrido
+              </button>
+            )}
           </h3>
+          {!readOnly && isPlannerOpen && (
+            <PlannerPanel
+              selectedEvents={selectedEvents}
+              tiers={agenda}
+              onTierChange={changeTier}
+              onApply={applyItinerary}
+              onClose={() => setIsPlannerOpen(false)}
+              timeZone={displayTimeZone}
+            />
+          )}
+          {conflicts.length > 0 && (
+            <div className="selected-conflicts" role="status">
+              <p className="selected-conflicts__title">
+                <AlertTriangleIcon size={14} />
+                {conflicts.length} choque{conflicts.length !== 1 ? 's' : ''} en
+                tu agenda
+              </p>
+              <ul className="selected-conflicts__list">
+                {conflicts.map((c) => (
+                  <li
+                    key={`${c.first.id}-${c.second.id}`}
+                    data-conflict={c.kind}
+                  >
+                    Día {c.first.day}: {describeConflict(c)}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
           <div className="selected-tags">
-            {allEvents
-              .filter((e) => selectedIds.has(e.id))
-              .sort((a, b) => a.startAt.getTime() - b.startAt.getTime())
-              .map((e) => (
-                <span key={e.id} className="selected-tag" data-stage={e.stage}>
-                  {e.artist}
+            {selectedEvents.map((e) => {
+              const tier = agenda.get(e.id) ?? DEFAULT_TIER;
+              return (
+                <span
+                  key={e.id}
+                  className={`selected-tag selected-tag--${tier} ${conflictsByEvent.has(e.id) ? 'selected-tag--conflict' : ''}`}
+                  data-stage={e.stage}
+                >
+                  {conflictsByEvent.has(e.id) && (
+                    <AlertTriangleIcon size={12} />
+                  )}
+                  {readOnly ? (
+                    <span
+                      className="selected-tag-tier"
+                      title={TIER_LABELS[tier]}
+                    >
+                      {tier === 'must' && <StarIcon size={12} />}
+                      {e.artist}
+                    </span>
+                  ) : (
+                    <button
+                      onClick={() => cycleTier(e.id)}
+                      className="selected-tag-tier"
+                      title={`${TIER_LABELS[tier]} (tocá para cambiar)`}
+                      aria-label={`${e.artist}: ${TIER_LABELS[tier]}. Cambiar prioridad`}
+                    >
+                      {tier === 'must' && <StarIcon size={12} />}
+                      {e.artist}
+                    </button>
+                  )}
+                  <AddToCalendar event={e} compact />
                   {!readOnly && (
                     <button
                       onClick={() => toggleArtist(e.id)}
@@ -336,10 +926,24 @@ export default function TimetableApp({ schedules }: TimetableAppProps) {
                     </button>
                   )}
                 </span>
-              ))}
+              );
+            })}
           </div>
         </div>
       )}
+
+      {/* Artist detail sheet */}
+      {detailsEvent && (
+        <ArtistSheet
+          event={detailsEvent}
+          isSelected={selectedIds.has(detailsEvent.id)}
+          tier={agenda.get(detailsEvent.id)}
+          readOnly={readOnly}
+          onToggle={toggleArtist}
+          onClose={() => setDetailsEventId(null)}
+          timeZone={displayTimeZone}
+        />
+      )}
     </div>
   );
 }
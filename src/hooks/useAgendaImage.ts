@@ -0,0 +1,77 @@
+import { useCallback, useEffect, useRef } from 'react';
+import { renderAgendaImage } from '../lib/agenda-image';
+import type { AgendaImageInput } from '../lib/types';
+import type {
+  AgendaImageRequest,
+  AgendaImageResponse,
+} from '../workers/agenda-image.worker';
+
+// ─── Agenda image hook ─────────────────────────────────────────────
+// Returns a function that renders the agenda PNG in a Web Worker when
+// the browser has OffscreenCanvas, and on the main thread otherwise
+// (or if the worker fails to start). The worker is created on first
+// use and terminated on unmount.
+export function useAgendaImage() {
+  const workerRef = useRef<Worker | null>(null);
+  const workerFailedRef = useRef(false);
+  const nextIdRef = useRef(0);
+
+  useEffect(() => () => workerRef.current?.terminate(), []);
+
+  const renderInWorker = useCallback(
+    (input: AgendaImageInput) =>
+      new Promise<Blob>((resolve, reject) => {
+        if (!workerRef.current) {
+          workerRef.current = new Worker(
+            new URL('../workers/agenda-image.worker.ts', import.meta.url),
+            { type: 'module' }
+          );
+        }
+        const worker = workerRef.current;
+        const id = nextIdRef.current++;
+
+        const onMessage = (e: MessageEvent<AgendaImageResponse>) => {
+          if (e.data.id !== id) return;
+          cleanup();
+          if ('blob' in e.data) resolve(e.data.blob);
+          else reject(new Error(e.data.error));
+        };
+        const onError = (e: ErrorEvent) => {
+          cleanup();
+          reject(new Error(e.message || 'Agenda image worker failed'));
+        };
+        const cleanup = () => {
+          worker.removeEventListener('message', onMessage);
+          worker.removeEventListener('error', onError);
+        };
+
+        worker.addEventListener('message', onMessage);
+        worker.addEventListener('error', onError);
+        const request: AgendaImageRequest = { id, input };
+        worker.postMessage(request);
+      }),
+    []
+  );
+
+  return useCallback(
+    async (input: AgendaImageInput): Promise<Blob> => {
+      const canUseWorker =
+        typeof Worker !== 'undefined' &&
+        typeof OffscreenCanvas !== 'undefined' &&
+        !workerFailedRef.current;
+
+      if (canUseWorker) {
+        try {
+          return await renderInWorker(input);
+        } catch (error) {
+          console.warn('Agenda image worker failed, drawing here:', error);
+          workerFailedRef.current = true;
+          workerRef.current?.terminate();
+          workerRef.current = null;
+        }
+      }
+      return renderAgendaImage(input);
+    },
+    [renderInWorker]
+  );
+}
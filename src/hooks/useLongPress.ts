@@ -0,0 +1,59 @@
+import { useCallback, useEffect, useRef } from 'react';
+import type { PointerEvent, MouseEvent } from 'react';
+
+// ─── Long-press hook ───────────────────────────────────────────────
+// Calls `onLongPress` after the pointer is held for `delay` ms. The
+// click that follows a long press should be ignored by the caller:
+// check `wasLongPress()` at the start of the click handler.
+export function useLongPress(onLongPress?: () => void, delay = 500) {
+  const timerRef = useRef<number | null>(null);
+  const firedRef = useRef(false);
+
+  const clear = useCallback(() => {
+    if (timerRef.current !== null) {
+      window.clearTimeout(timerRef.current);
+      timerRef.current = null;
+    }
+  }, []);
+
+  useEffect(() => clear, [clear]);
+
+  const onPointerDown = useCallback(
+    (e: PointerEvent) => {
+      if (!onLongPress || e.button !== 0) return;
+      firedRef.current = false;
+      clear();
+      timerRef.current = window.setTimeout(() => {
+        timerRef.current = null;
+        firedRef.current = true;
+        onLongPress();
+      }, delay);
+    },
+    [onLongPress, delay, clear]
+  );
+
+  // Keep the browser's own long-press menu out of the way
+  const onContextMenu = useCallback(
+    (e: MouseEvent) => {
+      if (onLongPress) e.preventDefault();
+    },
+    [onLongPress]
+  );
+
+  const wasLongPress = useCallback(() => {
+    const fired = firedRef.current;
+    firedRef.current = false;
+    return fired;
+  }, []);
+
+  return {
+    handlers: {
+      onPointerDown,
+      onPointerUp: clear,
+      onPointerLeave: clear,
+      onPointerCancel: clear,
+      onContextMenu,
+    },
+    wasLongPress,
+  };
+}
@@ -0,0 +1,27 @@
+import { useState, useEffect } from 'react';
+
+// ─── Clock hook ────────────────────────────────────────────────────
+// Current time, refreshed every `intervalMs` and when the tab becomes
+// visible again. With `simulatedStart` (the `?now=` param) the clock
+// starts at that instant and keeps ticking from there.
+export function useNow(simulatedStart: Date | null, intervalMs = 30_000) {
+  const [now, setNow] = useState(() => simulatedStart ?? new Date());
+
+  useEffect(() => {
+    const offset = simulatedStart ? simulatedStart.getTime() - Date.now() : 0;
+    const tick = () => setNow(new Date(Date.now() + offset));
+    tick();
+
+    const timer = window.setInterval(tick, intervalMs);
+    const onVisibility = () => {
+      if (document.visibilityState === 'visible') tick();
+    };
+    document.addEventListener('visibilitychange', onVisibility);
+    return () => {
+      window.clearInterval(timer);
+      document.removeEventListener('visibilitychange', onVisibility);
+    };
+  }, [simulatedStart?.getTime(), intervalMs]);
+
+  return now;
+}
@@ -0,0 +1,56 @@
+import { useEffect, useRef } from 'react';
+import type { Agenda, FestivalEvent, ReminderSettings } from '../lib/types';
+import {
+  buildReminders,
+  checkReminders,
+  getNotificationSupport,
+  scheduleReminders,
+  supportsNotificationTriggers,
+} from '../lib/reminders';
+
+const CHECK_INTERVAL_MS = 60 * 1000;
+
+// ─── Show reminders hook ───────────────────────────────────────────
+// Reschedules every reminder when the agenda or the settings change,
+// and without Notification Triggers asks the service worker to check
+// for due ones every minute while the app is open. The agenda only
+// lives in the URL, so opening the app without one (e.g. from the home
+// screen) keeps the reminders already scheduled instead of clearing them.
+export function useReminders(
+  settings: ReminderSettings,
+  agenda: Agenda,
+  events: FestivalEvent[],
+  eventIds: string[],
+  timeZone: string,
+  enabled = true
+) {
+  const isActive =
+    enabled && settings.enabled && getNotificationSupport() === 'granted';
+  const hasScheduledRef = useRef(false);
+
+  useEffect(() => {
+    if (!enabled) return;
+    if (!hasScheduledRef.current && isActive && agenda.size === 0) return;
+    hasScheduledRef.current = true;
+    const reminders = isActive
+      ? buildReminders(
+          events,
+          agenda,
+          eventIds,
+          settings.leadMinutes,
+          new Date(),
+          timeZone
+        )
+      : [];
+    scheduleReminders(reminders).catch((error) => {
+      console.error('[Reminders] Scheduling failed:', error);
+    });
+  }, [enabled, isActive, agenda, settings.leadMinutes, timeZone]);
+
+  useEffect(() => {
+    if (!isActive || supportsNotificationTriggers()) return;
+    checkReminders();
+    const timer = window.setInterval(checkReminders, CHECK_INTERVAL_MS);
+    return () => window.clearInterval(timer);
+  }, [isActive]);
+}
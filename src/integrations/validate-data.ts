@@ -0,0 +1,63 @@
+import type { AstroIntegration } from 'astro';
+import rawData from '../../data.json';
+import artistsData from '../../artists.json';
+import {
+  validateRawEvents,
+  validateChangelog,
+  validateArtists,
+  formatValidationIssue,
+} from '../lib/validate';
+import { getChangelog, getLineupVersion } from '../lib/changelog';
+import type { RawEvent } from '../lib/types';
+
+// ─── Astro integration: validate data.json before building ─────────
+// Hard errors fail `astro build`; in dev they are only logged so the
+// server keeps running while data.json is being edited.
+
+export default function validateData(): AstroIntegration {
+  return {
+    name: 'validate-data',
+    hooks: {
+      'astro:config:setup': ({ command, logger }) => {
+        const eventsReport = validateRawEvents(rawData);
+        const changelogReport = validateChangelog(
+          getChangelog(),
+          rawData as RawEvent[]
+        );
+        const artistsReport = validateArtists(
+          artistsData,
+          rawData as RawEvent[]
+        );
+        const errors = [
+          ...eventsReport.errors,
+          ...changelogReport.errors,
+          ...artistsReport.errors,
+        ];
+        const warnings = [
+          ...eventsReport.warnings,
+          ...changelogReport.warnings,
+          ...artistsReport.warnings,
+        ];
+
+        for (const warning of warnings) {
+          logger.warn(formatValidationIssue(warning));
+        }
+        for (const error of errors) {
+          logger.error(formatValidationIssue(error));
+        }
+
+        if (errors.length > 0 && command === 'build') {
+          throw new Error(
+            `data.json has ${errors.length} error${errors.length !== 1 ? 's' : ''}; fix them before building.`
+          );
+        }
+
+        if (errors.length === 0) {
+          logger.info(
+            `data.json v${getLineupVersion()} OK (${rawData.length} events, ${warnings.length} warning${warnings.length !== 1 ? 's' : ''})`
+          );
+        }
+      },
+    },
+  };
+}
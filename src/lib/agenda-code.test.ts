@@ -0,0 +1,97 @@
+import { describe, expect, it } from 'vitest';
+import type {
+  Agenda,
+  LineupChange,
+  LineupChangeType,
+  LineupRelease,
+} from './types';
+import { getAllEvents } from './data';
+import {
+  decodeAgenda,
+  encodeAgenda,
+  getEventIdsAtVersion,
+} from './agenda-code';
+
+function change(type: LineupChangeType, id: string): LineupChange {
+  return {
+    type,
+    id,
+    artist: `Artista ${id}`,
+    day: 1,
+    stage: 'Norte',
+    startAt: '2026-02-14T20:00',
+    endAt: '2026-02-14T21:00',
+  };
+}
+
+function release(version: number, changes: LineupChange[]): LineupRelease {
+  return { version, publishedAt: '2026-01-01', changes };
+}
+
+describe('getEventIdsAtVersion', () => {
+  const currentIds = ['1', '2', '3', '4', '5', '6'];
+
+  it('leaves out shows added later and puts back removed ones', () => {
+    const changelog = [
+      release(1, []),
+      release(2, [change('added', '6'), change('removed', '9')]),
+    ];
+    expect(getEventIdsAtVersion(currentIds, 1, changelog)).toEqual([
+      '1',
+      '2',
+      '3',
+      '4',
+      '5',
+      '9',
+    ]);
+    expect(getEventIdsAtVersion(currentIds, 2, changelog)).toEqual(currentIds);
+  });
+
+  it('keeps a show that was removed and re-added after the version', () => {
+    const changelog = [
+      release(1, []),
+      release(2, [change('removed', '3')]),
+      release(3, [change('added', '3')]),
+    ];
+    expect(getEventIdsAtVersion(currentIds, 1, changelog)).toEqual(currentIds);
+    expect(getEventIdsAtVersion(currentIds, 2, changelog)).toEqual([
+      '1',
+      '2',
+      '4',
+      '5',
+      '6',
+    ]);
+    expect(getEventIdsAtVersion(currentIds, 3, changelog)).toEqual(currentIds);
+  });
+
+  it('drops a show that was added and removed again after the version', () => {
+    const changelog = [
+      release(1, []),
+      release(2, [change('added', '7')]),
+      release(3, [change('removed', '7')]),
+    ];
+    expect(getEventIdsAtVersion(currentIds, 1, changelog)).toEqual(currentIds);
+    expect(getEventIdsAtVersion(currentIds, 2, changelog)).toEqual([
+      ...currentIds,
+      '7',
+    ]);
+  });
+});
+
+describe('encodeAgenda / decodeAgenda', () => {
+  const ids = getAllEvents().map((e) => e.id);
+
+  it('round-trips every tier against the current lineup', () => {
+    const agenda: Agenda = new Map([
+      [ids[0], 'must'],
+      [ids[5], 'want'],
+      [ids[ids.length - 1], 'maybe'],
+    ]);
+    expect(decodeAgenda(encodeAgenda(agenda, ids), ids)).toEqual(agenda);
+  });
+
+  it('rejects malformed codes', () => {
+    expect(decodeAgenda('2.1.AAAA', ids)).toBeNull();
+    expect(decodeAgenda('1.1.not base64', ids)).toBeNull();
+  });
+});
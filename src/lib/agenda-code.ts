@@ -0,0 +1,130 @@
+import type { Agenda, AgendaTier, LineupRelease } from './types';
+import { getChangelog, getLineupVersion } from './changelog';
+
+// ─── Compact agenda encoding ───────────────────────────────────────
+// `<format>.<lineup version>.<payload>`, e.g. `1.3.AAQB`. The payload
+// is a bitset with two bits per event (none / want / must / maybe) over
+// the event ids of that lineup version in a canonical order, packed as
+// base64url. Because the lineup version travels with the code, old
+// links keep pointing at the same shows after data.json changes: the
+// id list of an older version is rebuilt from changelog.json.
+
+const FORMAT_VERSION = 1;
+
+/** Two-bit code of each tier; 0 means "not selected" */
+const TIER_CODES: Record<AgendaTier, number> = { want: 1, must: 2, maybe: 3 };
+const TIERS_BY_CODE: (AgendaTier | null)[] = [null, 'want', 'must', 'maybe'];
+
+const EVENTS_PER_BYTE = 4;
+
+interface AgendaCode {
+  lineupVersion: number;
+  payload: string;
+}
+
+function compareIds(a: string, b: string): number {
+  return a.localeCompare(b, 'en', { numeric: true });
+}
+
+function toBase64Url(bytes: Uint8Array): string {
+  return btoa(String.fromCharCode(...bytes))
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/, '');
+}
+
+function fromBase64Url(value: string): Uint8Array | null {
+  if (!/^[A-Za-z0-9_-]*$/.test(value)) return null;
+  try {
+    const binary = atob(value.replace(/-/g, '+').replace(/_/g, '/'));
+    return Uint8Array.from(binary, (c) => c.charCodeAt(0));
+  } catch {
+    return null;
+  }
+}
+
+function parseAgendaCode(code: string): AgendaCode | null {
+  const [format, version, payload, ...rest] = code.split('.');
+  const lineupVersion = Number(version);
+  if (
+    Number(format) !== FORMAT_VERSION ||
+    !Number.isInteger(lineupVersion) ||
+    lineupVersion < 0 ||
+    payload === undefined ||
+    rest.length > 0
+  ) {
+    return null;
+  }
+  return { lineupVersion, payload };
+}
+
+/**
+ * Event ids as they were in `lineupVersion`, in bitset order. Undoes
+ * each release newer than that version, newest first, so a show that
+ * was removed and re-added later is still in the old list.
+ */
+export function getEventIdsAtVersion(
+  currentIds: string[],
+  lineupVersion: number,
+  changelog: LineupRelease[] = getChangelog()
+): string[] {
+  const ids = new Set(currentIds);
+  const newer = changelog
+    .filter((release) => release.version > lineupVersion)
+    .sort((a, b) => b.version - a.version);
+  for (const release of newer) {
+    for (const change of [...release.changes].reverse()) {
+      if (change.type === 'added') ids.delete(change.id);
+      if (change.type === 'removed') ids.add(change.id);
+    }
+  }
+  return [...ids].sort(compareIds);
+}
+
+/**
+ * Encodes the agenda against the current lineup. Selected ids that are
+ * no longer in the lineup (removed shows) are not kept.
+ */
+export function encodeAgenda(agenda: Agenda, currentIds: string[]): string {
+  const lineupVersion = getLineupVersion();
+  const ids = [...currentIds].sort(compareIds);
+  const bytes = new Uint8Array(Math.ceil(ids.length / EVENTS_PER_BYTE));
+  let length = 0;
+
+  ids.forEach((id, index) => {
+    const tier = agenda.get(id);
+    if (!tier) return;
+    const byte = Math.floor(index / EVENTS_PER_BYTE);
+    bytes[byte] |= TIER_CODES[tier] << ((index % EVENTS_PER_BYTE) * 2);
+    length = byte + 1;
+  });
+
+  return `${FORMAT_VERSION}.${lineupVersion}.${toBase64Url(bytes.subarray(0, length))}`;
+}
+
+/** `null` when the code is malformed or comes from a newer lineup */
+export function decodeAgenda(
+  code: string,
+  currentIds: string[]
+): Agenda | null {
+  const parsed = parseAgendaCode(code);
+  if (!parsed || parsed.lineupVersion > getLineupVersion()) return null;
+
+  const bytes = fromBase64Url(parsed.payload);
+  if (!bytes) return null;
+
+  const ids = getEventIdsAtVersion(currentIds, parsed.lineupVersion);
+  const agenda: Agenda = new Map();
+  ids.forEach((id, index) => {
+    const byte = bytes[Math.floor(index / EVENTS_PER_BYTE)] ?? 0;
+    const tier =
+      TIERS_BY_CODE[(byte >> ((index % EVENTS_PER_BYTE) * 2)) & 0b11];
+    if (tier) agenda.set(id, tier);
+  });
+  return agenda;
+}
+
+/** Lineup version an agenda code was created with */
+export function getAgendaCodeVersion(code: string): number | null {
+  return parseAgendaCode(code)?.lineupVersion ?? null;
+}
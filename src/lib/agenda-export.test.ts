@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+import type { FestivalEvent } from './types';
+import { FESTIVAL } from './festival';
+import { FESTIVAL_TIMEZONE } from './time';
+import { getAllEvents } from './data';
+import { generateAgendaMarkdown } from './agenda-export';
+
+function getTableRows(markdown: string): string[] {
+  return markdown
+    .split('\n')
+    .filter((line) => line.startsWith('| ') && !line.startsWith('| ---'))
+    .slice(1);
+}
+
+describe('generateAgendaMarkdown', () => {
+  const [event] = getAllEvents();
+  const estimated: FestivalEvent = {
+    ...event,
+    artist: 'Los ~Tildes~ | *Raros*',
+    startConfidence: 'estimated',
+    endConfidence: 'estimated',
+  };
+  const markdown = generateAgendaMarkdown({
+    events: [estimated],
+    schedules: FESTIVAL.days,
+    timeZone: FESTIVAL_TIMEZONE,
+  });
+
+  it('escapes the estimated-time tildes in the time cell', () => {
+    const [row] = getTableRows(markdown);
+    const timeCell = row.split(' | ')[0].slice(2);
+    expect(timeCell).toMatch(/^\\~\d{2}:\d{2}–\\~\d{2}:\d{2}$/);
+  });
+
+  it('escapes tildes, pipes and emphasis in names', () => {
+    expect(markdown).toContain('Los \\~Tildes\\~ \\| \\*Raros\\*');
+    // Four cells, so the pipe in the name didn't split one
+    const [row] = getTableRows(markdown);
+    expect(row.split(/(?<!\\)\|/).slice(1, -1)).toHaveLength(4);
+  });
+
+  it('has no unescaped tilde anywhere', () => {
+    expect(markdown).not.toMatch(/(?<!\\)~/);
+  });
+});
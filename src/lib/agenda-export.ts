@@ -0,0 +1,245 @@
+import type { Agenda, FestivalEvent, ScheduleInfo } from './types';
+import { FESTIVAL, FESTIVAL_TITLE } from './festival';
+import { DEFAULT_TIER, TIER_LABELS } from './constants';
+import { getEventTimeLabels, hasEstimatedTimes } from './data';
+import { FESTIVAL_TIMEZONE, formatDateTime, getTimeZoneLabel } from './time';
+
+// ─── Agenda text exports ───────────────────────────────────────────
+// The agenda as plain text (for WhatsApp and other chats), Markdown
+// and CSV: the non-calendar counterparts of generateICS in ./ics.ts.
+// Text and Markdown are grouped by day with times in `timeZone`; the
+// CSV has one row per show with both local and ISO (UTC) times.
+
+export type AgendaExportFormat = 'text' | 'markdown' | 'csv';
+
+export interface AgendaExportInput {
+  events: FestivalEvent[];
+  tiers?: Agenda;
+  schedules: ScheduleInfo[];
+  timeZone: string;
+  /** Link back to the agenda, appended to the text and Markdown */
+  shareUrl?: string;
+}
+
+export interface AgendaExportFile {
+  filename: string;
+  content: string;
+  mimeType: string;
+}
+
+/**
+ * Circles in the grid's stage colors where Unicode has one; unknown
+ * stages get a pin
+ */
+const STAGE_EMOJIS: Record<string, string> = {
+  Norte: '🔴',
+  Sur: '🔵',
+  Montaña: '🟢',
+  Boomerang: '🟡',
+  Paraguay: '🟣',
+  'La Casita del Blues': '🎷',
+  'La Plaza Electronic Stage': '🎧',
+  Sorpresa: '🟠',
+};
+
+const FALLBACK_STAGE_EMOJI = '📍';
+
+export function getStageEmoji(stage: string): string {
+  return STAGE_EMOJIS[stage] ?? FALLBACK_STAGE_EMOJI;
+}
+
+interface AgendaDay {
+  day: number;
+  title: string;
+  events: FestivalEvent[];
+}
+
+/** Selected shows per day in start order; days without shows are skipped */
+function groupByDay(input: AgendaExportInput): AgendaDay[] {
+  const sorted = [...input.events].sort(
+    (a, b) => a.startAt.getTime() - b.startAt.getTime()
+  );
+  const days = [...new Set(sorted.map((e) => e.day))].sort((a, b) => a - b);
+  return days.map((day) => {
+    const info = input.schedules.find((s) => s.day === day);
+    return {
+      day,
+      title: `Día ${day}${info ? ` — ${info.label}` : ''}`,
+      events: sorted.filter((e) => e.day === day),
+    };
+  });
+}
+
+/** e.g. 'Horarios en GMT+1', only when not showing festival time */
+function getTimeZoneNote(input: AgendaExportInput): string | null {
+  if (input.timeZone === FESTIVAL_TIMEZONE || input.events.length === 0) {
+    return null;
+  }
+  return `Horarios en ${getTimeZoneLabel(input.timeZone, input.events[0].startAt)}`;
+}
+
+function getTitle(): string {
+  return `Mi agenda — ${FESTIVAL_TITLE}`;
+}
+
+// ─── Plain text ────────────────────────────────────────────────────
+
+/**
+ * WhatsApp-friendly text: `*bold*` day titles and artists, one line
+ * per show with its stage emoji, and a legend of the emojis at the end.
+ */
+export function generateAgendaText(input: AgendaExportInput): string {
+  const lines = [`🎸 *${getTitle()}*`];
+  const timeZoneNote = getTimeZoneNote(input);
+  if (timeZoneNote) lines.push(`_${timeZoneNote}_`);
+
+  for (const day of groupByDay(input)) {
+    lines.push('', `*${day.title}*`);
+    for (const event of day.events) {
+      const { start, end } = getEventTimeLabels(event, input.timeZone);
+      const tier = input.tiers?.get(event.id);
+      const tierMark =
+        tier === 'must' ? ' ⭐' : tier === 'maybe' ? ' (si da)' : '';
+      lines.push(
+        `${getStageEmoji(event.stage)} ${start}–${end} *${event.artist}*${tierMark} · ${event.stage}`
+      );
+    }
+  }
+
+  const stageIndex = (stage: string) => {
+    const index = FESTIVAL.stageOrder.indexOf(stage);
+    return index === -1 ? FESTIVAL.stageOrder.length : index;
+  };
+  const stages = [...new Set(input.events.map((e) => e.stage))].sort(
+    (a, b) => stageIndex(a) - stageIndex(b) || a.localeCompare(b)
+  );
+  const notes = stages.map((stage) => `${getStageEmoji(stage)} ${stage}`);
+  if (input.events.some((e) => input.tiers?.get(e.id) === 'must')) {
+    notes.push(`⭐ ${TIER_LABELS.must}`);
+  }
+  if (input.events.some(hasEstimatedTimes)) notes.push('~ Horario estimado');
+  lines.push('', notes.join(' · '));
+
+  if (input.shareUrl) lines.push('', input.shareUrl);
+  return lines.join('\n') + '\n';
+}
+
+// ─── Markdown ──────────────────────────────────────────────────────
+
+/**
+ * Escapes characters that would break a table cell or add formatting
+ * (`~` included: GitHub reads `~21:00–~22:00` as strikethrough)
+ */
+function escapeMarkdown(value: string): string {
+  return value.replace(/[\\`*_~[\]|<>#]/g, '\\$&');
+}
+
+/** A heading per day with a table of its shows */
+export function generateAgendaMarkdown(input: AgendaExportInput): string {
+  const lines = [`# ${escapeMarkdown(getTitle())}`];
+  const timeZoneNote = getTimeZoneNote(input);
+  if (timeZoneNote) lines.push('', `_${timeZoneNote}_`);
+
+  for (const day of groupByDay(input)) {
+    lines.push(
+      '',
+      `## ${escapeMarkdown(day.title)}`,
+      '',
+      '| Horario | Artista | Escenario | Prioridad |',
+      '| --- | --- | --- | --- |'
+    );
+    for (const event of day.events) {
+      const { start, end } = getEventTimeLabels(event, input.timeZone);
+      const tier = input.tiers?.get(event.id) ?? DEFAULT_TIER;
+      lines.push(
+        `| ${escapeMarkdown(`${start}–${end}`)} | ${escapeMarkdown(event.artist)} | ${escapeMarkdown(event.stage)} | ${TIER_LABELS[tier]} |`
+      );
+    }
+  }
+
+  if (input.events.some(hasEstimatedTimes)) {
+    lines.push('', `_${escapeMarkdown('~ Horario estimado')}_`);
+  }
+  if (input.shareUrl) lines.push('', `[Ver mi agenda](${input.shareUrl})`);
+  return lines.join('\n') + '\n';
+}
+
+// ─── CSV ───────────────────────────────────────────────────────────
+
+const CSV_COLUMNS = [
+  'dia',
+  'fecha',
+  'artista',
+  'escenario',
+  'prioridad',
+  'inicio_local',
+  'fin_local',
+  'zona_horaria',
+  'inicio_iso',
+  'fin_iso',
+  'horario_estimado',
+];
+
+/** Quotes a field when needed (RFC 4180) */
+function escapeCSV(value: string | number): string {
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * One row per show in start order. Local times are in `timeZone`
+ * ('2026-02-14 20:30'), ISO times in UTC.
+ */
+export function generateAgendaCSV(input: AgendaExportInput): string {
+  const rows = groupByDay(input).flatMap((day) =>
+    day.events.map((event) => [
+      event.day,
+      input.schedules.find((s) => s.day === event.day)?.date ?? '',
+      event.artist,
+      event.stage,
+      TIER_LABELS[input.tiers?.get(event.id) ?? DEFAULT_TIER],
+      formatDateTime(event.startAt, input.timeZone),
+      formatDateTime(event.endAt, input.timeZone),
+      input.timeZone,
+      event.startAt.toISOString(),
+      event.endAt.toISOString(),
+      hasEstimatedTimes(event) ? 'sí' : 'no',
+    ])
+  );
+
+  return (
+    [CSV_COLUMNS, ...rows]
+      .map((row) => row.map(escapeCSV).join(','))
+      .join('\r\n') + '\r\n'
+  );
+}
+
+// ─── Files ─────────────────────────────────────────────────────────
+
+/** Content and download name of the agenda in the given format */
+export function generateAgendaExport(
+  format: AgendaExportFormat,
+  input: AgendaExportInput
+): AgendaExportFile {
+  const basename = `mi-agenda-${FESTIVAL.slug}`;
+  switch (format) {
+    case 'text':
+      return {
+        filename: `${basename}.txt`,
+        content: generateAgendaText(input),
+        mimeType: 'text/plain;charset=utf-8',
+      };
+    case 'markdown':
+      return {
+        filename: `${basename}.md`,
+        content: generateAgendaMarkdown(input),
+        mimeType: 'text/markdown;charset=utf-8',
+      };
+    case 'csv':
+      return {
+        filename: `${basename}.csv`,
+        content: generateAgendaCSV(input),
+        mimeType: 'text/csv;charset=utf-8',
+      };
+  }
+}
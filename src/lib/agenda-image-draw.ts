@@ -0,0 +1,349 @@
+import type { AgendaImageInput, AgendaImageSize, FestivalEvent } from './types';
+import { FESTIVAL_TITLE, SITE_HOST } from './festival';
+import { FESTIVAL_TIMEZONE, getTimeZoneLabel } from './time';
+import { hasEstimatedTimes } from './data';
+
+// ─── Agenda image drawing ──────────────────────────────────────────
+// Canvas primitives, colors and the header/footer shared by the image
+// templates (./agenda-image-*.ts). Nothing here touches the DOM, so it
+// also runs in the worker.
+
+export type Canvas2D =
+  | CanvasRenderingContext2D
+  | OffscreenCanvasRenderingContext2D;
+
+export const FONT_BODY =
+  'system-ui, -apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, sans-serif';
+export const FONT_HEADING = '"Impact", "Arial Black", sans-serif';
+
+export const IMAGE_COLORS = {
+  bg: '#0a0a0f',
+  surface: '#141418',
+  surfaceAlt: '#1c1c22',
+  border: '#2a2a35',
+  text: '#e4e4e8',
+  muted: '#8a8a96',
+  dim: '#5a5a66',
+  accent: '#eab308',
+  conflictBg: 'rgba(239, 68, 68, 0.12)',
+  conflictBorder: 'rgba(239, 68, 68, 0.4)',
+  conflictText: '#fca5a5',
+};
+
+export interface StageImageColor {
+  border: string;
+  bg: string;
+  text: string;
+}
+
+// Stage colors matching base.css
+const STAGE_COLORS: Record<string, StageImageColor> = {
+  Norte: { border: '#ef4444', bg: 'rgba(239, 68, 68, 0.2)', text: '#fca5a5' },
+  Sur: { border: '#3b82f6', bg: 'rgba(59, 130, 246, 0.2)', text: '#93c5fd' },
+  Montaña: {
+    border: '#10b981',
+    bg: 'rgba(16, 185, 129, 0.2)',
+    text: '#6ee7b7',
+  },
+  Boomerang: {
+    border: '#f59e0b',
+    bg: 'rgba(245, 158, 11, 0.2)',
+    text: '#fcd34d',
+  },
+  Paraguay: {
+    border: '#a855f7',
+    bg: 'rgba(168, 85, 247, 0.2)',
+    text: '#c4b5fd',
+  },
+  'La Casita del Blues': {
+    border: '#06b6d4',
+    bg: 'rgba(6, 182, 212, 0.2)',
+    text: '#67e8f9',
+  },
+  'La Plaza Electronic Stage': {
+    border: '#ec4899',
+    bg: 'rgba(236, 72, 153, 0.2)',
+    text: '#f9a8d4',
+  },
+  Sorpresa: {
+    border: '#f97316',
+    bg: 'rgba(249, 115, 22, 0.2)',
+    text: '#fdba74',
+  },
+};
+
+const FALLBACK_STAGE_COLOR: StageImageColor = {
+  border: '#5a5a66',
+  bg: 'rgba(90, 90, 102, 0.2)',
+  text: '#8a8a96',
+};
+
+export function getStageImageColor(stage: string): StageImageColor {
+  return STAGE_COLORS[stage] ?? FALLBACK_STAGE_COLOR;
+}
+
+// ─── Primitives ────────────────────────────────────────────────────
+
+export function roundedRect(
+  ctx: Canvas2D,
+  x: number,
+  y: number,
+  width: number,
+  height: number,
+  radius: number
+) {
+  const r = Math.min(radius, width / 2, height / 2);
+  ctx.beginPath();
+  ctx.moveTo(x + r, y);
+  ctx.arcTo(x + width, y, x + width, y + height, r);
+  ctx.arcTo(x + width, y + height, x, y + height, r);
+  ctx.arcTo(x, y + height, x, y, r);
+  ctx.arcTo(x, y, x + width, y, r);
+  ctx.closePath();
+}
+
+export function fillRoundedRect(
+  ctx: Canvas2D,
+  x: number,
+  y: number,
+  width: number,
+  height: number,
+  radius: number,
+  fill: string,
+  stroke?: string
+) {
+  roundedRect(ctx, x, y, width, height, radius);
+  ctx.fillStyle = fill;
+  ctx.fill();
+  if (stroke) {
+    ctx.strokeStyle = stroke;
+    ctx.lineWidth = 1;
+    ctx.stroke();
+  }
+}
+
+/** Cuts `text` with an ellipsis so it fits in `maxWidth` (current font) */
+export function fitText(ctx: Canvas2D, text: string, maxWidth: number): string {
+  if (ctx.measureText(text).width <= maxWidth) return text;
+  let end = text.length;
+  while (
+    end > 0 &&
+    ctx.measureText(`${text.slice(0, end)}…`).width > maxWidth
+  ) {
+    end--;
+  }
+  return `${text.slice(0, end).trimEnd()}…`;
+}
+
+/** Draws one line of text from its top edge; returns its drawn width */
+export function drawText(
+  ctx: Canvas2D,
+  text: string,
+  x: number,
+  y: number,
+  font: string,
+  color: string,
+  maxWidth: number,
+  align: CanvasTextAlign = 'left'
+): number {
+  ctx.font = font;
+  ctx.fillStyle = color;
+  ctx.textAlign = align;
+  ctx.textBaseline = 'top';
+  const fitted = fitText(ctx, text, maxWidth);
+  ctx.fillText(fitted, x, y);
+  return ctx.measureText(fitted).width;
+}
+
+export function fillBackground(ctx: Canvas2D, size: AgendaImageSize) {
+  const background = ctx.createLinearGradient(0, 0, size.width, size.height);
+  background.addColorStop(0, IMAGE_COLORS.bg);
+  background.addColorStop(0.5, IMAGE_COLORS.surface);
+  background.addColorStop(1, IMAGE_COLORS.bg);
+  ctx.fillStyle = background;
+  ctx.fillRect(0, 0, size.width, size.height);
+}
+
+/**
+ * Runs `draw` on a `width` × `height` canvas and encodes the result.
+ * Uses an OffscreenCanvas when available (always the case inside the
+ * worker) and a detached <canvas> otherwise.
+ */
+export async function renderCanvas(
+  width: number,
+  height: number,
+  draw: (ctx: Canvas2D) => void,
+  type = 'image/png',
+  quality?: number
+): Promise<Blob> {
+  if (typeof OffscreenCanvas !== 'undefined') {
+    const canvas = new OffscreenCanvas(width, height);
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('2D canvas is not available');
+    draw(ctx);
+    return canvas.convertToBlob({ type, quality });
+  }
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('2D canvas is not available');
+  draw(ctx);
+  return new Promise((resolve, reject) =>
+    canvas.toBlob(
+      (blob) =>
+        blob ? resolve(blob) : reject(new Error(`Could not encode ${type}`)),
+      type,
+      quality
+    )
+  );
+}
+
+// ─── Shared content ────────────────────────────────────────────────
+
+export function sortByStart(events: FestivalEvent[]): FestivalEvent[] {
+  return [...events].sort((a, b) => a.startAt.getTime() - b.startAt.getTime());
+}
+
+/** Festival days with selected shows, in order */
+export function getAgendaDays(input: AgendaImageInput): number[] {
+  return [...new Set(input.events.map((e) => e.day))].sort((a, b) => a - b);
+}
+
+export function getDayImageLabel(input: AgendaImageInput, day: number): string {
+  const info = input.schedules.find((s) => s.day === day);
+  return `Día ${day}${info ? ` — ${info.label}` : ''}`;
+}
+
+export function getImageTitle(prefix = 'Mi Agenda'): string {
+  return `${prefix} ${FESTIVAL_TITLE}`.toUpperCase();
+}
+
+/** e.g. '12 artistas seleccionados · Horarios en GMT+1' */
+export function getImageSubtitle(input: AgendaImageInput): string {
+  const count = input.events.length;
+  const plural = count !== 1 ? 's' : '';
+  const zoneText =
+    input.timeZone !== FESTIVAL_TIMEZONE && input.events.length > 0
+      ? ` · Horarios en ${getTimeZoneLabel(input.timeZone, input.events[0].startAt)}`
+      : '';
+  return `${count} artista${plural} seleccionado${plural}${zoneText}`;
+}
+
+export function getFooterNotes(input: AgendaImageInput): string[] {
+  const notes: string[] = [];
+  if (input.events.some(hasEstimatedTimes)) {
+    notes.push('~ Horario estimado (línea punteada: fin estimado)');
+  }
+  if (input.tiers && [...input.tiers.values()].includes('must')) {
+    notes.push('★ Imperdible');
+  }
+  return notes;
+}
+
+export const IMAGE_CREDIT = `Generado en ${SITE_HOST}`;
+
+// ─── Poster header and footer (fixed-size templates) ───────────────
+
+export interface PosterFrame {
+  size: AgendaImageSize;
+  /** Space kept clear at the top and bottom (e.g. Stories UI) */
+  safeTop: number;
+  safeBottom: number;
+  padding: number;
+}
+
+/** Title and subtitle; returns the y where the content starts */
+export function drawPosterHeader(
+  ctx: Canvas2D,
+  frame: PosterFrame,
+  title: string,
+  subtitle: string
+): number {
+  const center = frame.size.width / 2;
+  const maxWidth = frame.size.width - frame.padding * 2;
+  const titleSize = Math.round(frame.size.width * 0.056);
+  const subtitleSize = Math.round(titleSize * 0.45);
+  let y = frame.safeTop;
+
+  ctx.save();
+  ctx.shadowColor = 'rgba(234, 179, 8, 0.3)';
+  ctx.shadowBlur = titleSize * 0.35;
+  drawText(
+    ctx,
+    title,
+    center,
+    y,
+    `${titleSize}px ${FONT_HEADING}`,
+    IMAGE_COLORS.accent,
+    maxWidth,
+    'center'
+  );
+  ctx.restore();
+  y += titleSize * 1.25;
+
+  drawText(
+    ctx,
+    subtitle,
+    center,
+    y,
+    `${subtitleSize}px ${FONT_BODY}`,
+    IMAGE_COLORS.muted,
+    maxWidth,
+    'center'
+  );
+  y += subtitleSize * 1.4 + subtitleSize;
+
+  ctx.fillStyle = IMAGE_COLORS.border;
+  ctx.fillRect(frame.padding, y, maxWidth, 2);
+  return y + subtitleSize * 1.5;
+}
+
+/** Height of the footer drawn by drawPosterFooter */
+export function getPosterFooterHeight(
+  input: AgendaImageInput,
+  frame: PosterFrame
+): number {
+  const lineHeight = Math.round(frame.size.width * 0.022) * 1.5;
+  return (getFooterNotes(input).length + 1) * lineHeight + lineHeight;
+}
+
+/** Notes and credit, ending at the bottom safe area */
+export function drawPosterFooter(
+  ctx: Canvas2D,
+  input: AgendaImageInput,
+  frame: PosterFrame
+) {
+  const fontSize = Math.round(frame.size.width * 0.022);
+  const lineHeight = fontSize * 1.5;
+  const center = frame.size.width / 2;
+  const maxWidth = frame.size.width - frame.padding * 2;
+  const notes = getFooterNotes(input);
+  let y =
+    frame.size.height - frame.safeBottom - (notes.length + 1) * lineHeight;
+
+  for (const note of notes) {
+    drawText(
+      ctx,
+      note,
+      center,
+      y,
+      `${fontSize}px ${FONT_BODY}`,
+      IMAGE_COLORS.muted,
+      maxWidth,
+      'center'
+    );
+    y += lineHeight;
+  }
+  drawText(
+    ctx,
+    IMAGE_CREDIT,
+    center,
+    y,
+    `${fontSize}px ${FONT_BODY}`,
+    IMAGE_COLORS.dim,
+    maxWidth,
+    'center'
+  );
+}
@@ -0,0 +1,261 @@
+import type { AgendaImageInput, AgendaImageSize, FestivalEvent } from './types';
+import { FESTIVAL } from './festival';
+import { getEventTimeLabels } from './data';
+import { formatGridTime, getFestivalNightDate } from './time';
+import {
+  FONT_BODY,
+  FONT_HEADING,
+  IMAGE_COLORS as COLORS,
+  drawPosterFooter,
+  drawPosterHeader,
+  drawText,
+  fillBackground,
+  getAgendaDays,
+  getDayImageLabel,
+  getImageSubtitle,
+  getImageTitle,
+  getPosterFooterHeight,
+  getStageImageColor,
+  roundedRect,
+} from './agenda-image-draw';
+import type { Canvas2D, PosterFrame } from './agenda-image-draw';
+
+// ─── "Mini grilla" template ────────────────────────────────────────
+// A 9:16 timetable of the selected shows: one section per day, the
+// stages with picks as columns and time running down. Sections share
+// the height in proportion to how many hours each one spans.
+
+const FRAME: PosterFrame = {
+  size: { width: 1080, height: 1920, scale: 1 },
+  safeTop: 180,
+  safeBottom: 180,
+  padding: 48,
+};
+
+const AXIS_WIDTH = 84;
+const COLUMN_GAP = 8;
+const DAY_HEADING_HEIGHT = 44;
+const STAGE_HEADING_HEIGHT = 36;
+const SECTION_GAP = 28;
+/** Keeps a one-show agenda from turning into a single giant block */
+const MAX_PX_PER_MINUTE = 3;
+
+interface GridSection {
+  day: number;
+  /** Festival night (YYYY-MM-DD), for the hour labels */
+  nightDate: string;
+  stages: string[];
+  events: FestivalEvent[];
+  startMinute: number;
+  endMinute: number;
+}
+
+// ─── Layout ────────────────────────────────────────────────────────
+
+function getSections(input: AgendaImageInput): GridSection[] {
+  const stageIndex = (stage: string) => {
+    const index = FESTIVAL.stageOrder.indexOf(stage);
+    return index === -1 ? FESTIVAL.stageOrder.length : index;
+  };
+
+  return getAgendaDays(input).map((day) => {
+    const events = input.events.filter((e) => e.day === day);
+    const minutes = events.flatMap((e) => [e.startMinutes, e.endMinutes]);
+    return {
+      day,
+      nightDate: getFestivalNightDate(events[0].startAt),
+      stages: [...new Set(events.map((e) => e.stage))].sort(
+        (a, b) => stageIndex(a) - stageIndex(b) || a.localeCompare(b)
+      ),
+      events,
+      startMinute: Math.floor(Math.min(...minutes) / 60) * 60,
+      endMinute: Math.ceil(Math.max(...minutes) / 60) * 60,
+    };
+  });
+}
+
+export function getGridImageSize(): AgendaImageSize {
+  return FRAME.size;
+}
+
+// ─── Drawing ───────────────────────────────────────────────────────
+
+function drawBlock(
+  ctx: Canvas2D,
+  input: AgendaImageInput,
+  event: FestivalEvent,
+  x: number,
+  y: number,
+  width: number,
+  height: number
+) {
+  const color = getStageImageColor(event.stage);
+  const tier = input.tiers?.get(event.id);
+
+  ctx.save();
+  roundedRect(ctx, x, y, width, height, 6);
+  ctx.clip();
+  ctx.fillStyle = color.bg;
+  ctx.fillRect(x, y, width, height);
+  ctx.fillStyle = color.border;
+  ctx.fillRect(x, y, 4, height);
+  if (event.endConfidence === 'estimated') {
+    ctx.strokeStyle = `${color.border}80`;
+    ctx.lineWidth = 2;
+    ctx.setLineDash([6, 4]);
+    ctx.beginPath();
+    ctx.moveTo(x, y + height - 1);
+    ctx.lineTo(x + width, y + height - 1);
+    ctx.stroke();
+  }
+
+  // Text scales with the block and stays clipped to it
+  const fontSize = Math.round(
+    Math.max(11, Math.min(26, height * 0.38, width * 0.11))
+  );
+  const timeSize = Math.round(fontSize * 0.8);
+  const showTime = height >= fontSize * 1.3 + timeSize + 12;
+  const textHeight = showTime ? fontSize * 1.3 + timeSize : fontSize;
+  const textX = x + 10;
+  const textWidth = width - 16;
+  const textY = y + Math.min(8, Math.max(2, (height - textHeight) / 2));
+
+  drawText(
+    ctx,
+    `${tier === 'must' ? '★ ' : ''}${event.artist}`,
+    textX,
+    textY,
+    `700 ${fontSize}px ${FONT_BODY}`,
+    tier === 'maybe' ? COLORS.text : '#ffffff',
+    textWidth
+  );
+  if (showTime) {
+    const { start, end } = getEventTimeLabels(event, input.timeZone);
+    drawText(
+      ctx,
+      `${start} - ${end}`,
+      textX,
+      textY + fontSize * 1.3,
+      `600 ${timeSize}px ${FONT_BODY}`,
+      COLORS.muted,
+      textWidth
+    );
+  }
+  ctx.restore();
+}
+
+function drawSection(
+  ctx: Canvas2D,
+  input: AgendaImageInput,
+  section: GridSection,
+  y: number,
+  pxPerMinute: number
+): number {
+  const contentWidth = FRAME.size.width - FRAME.padding * 2;
+  const gridX = FRAME.padding + AXIS_WIDTH;
+  const columnWidth =
+    (contentWidth - AXIS_WIDTH - COLUMN_GAP * (section.stages.length - 1)) /
+    section.stages.length;
+  const columnX = (stage: string) =>
+    gridX + section.stages.indexOf(stage) * (columnWidth + COLUMN_GAP);
+
+  drawText(
+    ctx,
+    getDayImageLabel(input, section.day).toUpperCase(),
+    FRAME.padding,
+    y + 6,
+    `700 28px ${FONT_BODY}`,
+    COLORS.accent,
+    contentWidth
+  );
+  y += DAY_HEADING_HEIGHT;
+
+  for (const stage of section.stages) {
+    const color = getStageImageColor(stage);
+    drawText(
+      ctx,
+      stage.toUpperCase(),
+      columnX(stage) + columnWidth / 2,
+      y + 4,
+      `${Math.round(Math.max(12, Math.min(20, columnWidth * 0.1)))}px ${FONT_HEADING}`,
+      color.text,
+      columnWidth - 4,
+      'center'
+    );
+    ctx.fillStyle = color.border;
+    ctx.fillRect(columnX(stage), y + STAGE_HEADING_HEIGHT - 6, columnWidth, 3);
+  }
+  y += STAGE_HEADING_HEIGHT;
+
+  // Hour lines (label just below each), every two hours when they
+  // would crowd each other
+  const hourStep = pxPerMinute * 60 < 36 ? 120 : 60;
+  const labelSize = Math.round(Math.min(22, Math.max(14, pxPerMinute * 14)));
+  for (let m = section.startMinute; m <= section.endMinute; m += hourStep) {
+    const lineY = y + (m - section.startMinute) * pxPerMinute;
+    ctx.fillStyle = COLORS.border;
+    ctx.fillRect(gridX, lineY, contentWidth - AXIS_WIDTH, 1);
+    drawText(
+      ctx,
+      formatGridTime(section.nightDate, m, input.timeZone),
+      FRAME.padding,
+      lineY + 4,
+      `600 ${labelSize}px ${FONT_BODY}`,
+      COLORS.muted,
+      AXIS_WIDTH - 12
+    );
+  }
+
+  for (const event of section.events) {
+    const top = y + (event.startMinutes - section.startMinute) * pxPerMinute;
+    const height = Math.max(event.duration * pxPerMinute - 3, 8);
+    drawBlock(
+      ctx,
+      input,
+      event,
+      columnX(event.stage),
+      top,
+      columnWidth,
+      height
+    );
+  }
+
+  return (
+    y + (section.endMinute - section.startMinute) * pxPerMinute + SECTION_GAP
+  );
+}
+
+export function drawGridImage(ctx: Canvas2D, input: AgendaImageInput) {
+  fillBackground(ctx, FRAME.size);
+
+  const top = drawPosterHeader(
+    ctx,
+    FRAME,
+    getImageTitle(),
+    getImageSubtitle(input)
+  );
+  const bottom =
+    FRAME.size.height - FRAME.safeBottom - getPosterFooterHeight(input, FRAME);
+  drawPosterFooter(ctx, input, FRAME);
+
+  const sections = getSections(input);
+  if (sections.length === 0) return;
+
+  const headings =
+    sections.length * (DAY_HEADING_HEIGHT + STAGE_HEADING_HEIGHT) +
+    (sections.length - 1) * SECTION_GAP;
+  const totalMinutes = sections.reduce(
+    (sum, s) => sum + s.endMinute - s.startMinute,
+    0
+  );
+  const pxPerMinute = Math.min(
+    (bottom - top - headings) / totalMinutes,
+    MAX_PX_PER_MINUTE
+  );
+  const height = headings + totalMinutes * pxPerMinute;
+
+  let y = top + (bottom - top - height) / 2;
+  for (const section of sections) {
+    y = drawSection(ctx, input, section, y, pxPerMinute);
+  }
+}
@@ -0,0 +1,265 @@
+import type { AgendaImageInput, AgendaImageSize, FestivalEvent } from './types';
+import { getEventTimeLabels } from './data';
+import {
+  FONT_BODY,
+  IMAGE_COLORS as COLORS,
+  drawPosterFooter,
+  drawPosterHeader,
+  drawText,
+  fillBackground,
+  fillRoundedRect,
+  getAgendaDays,
+  getDayImageLabel,
+  getImageSubtitle,
+  getImageTitle,
+  getPosterFooterHeight,
+  getStageImageColor,
+  sortByStart,
+} from './agenda-image-draw';
+import type { Canvas2D, PosterFrame } from './agenda-image-draw';
+
+// ─── "Mi noche" and "Post" templates ───────────────────────────────
+// The agenda as a chronological list on a fixed canvas: a 9:16 story
+// or a 1:1 post. Rows get shorter and the list splits into columns as
+// the agenda grows, so 1 show and 40 shows both fill the frame.
+
+interface ListLayout {
+  frame: PosterFrame;
+  /** Rows per column before adding another column */
+  maxRows: number;
+  maxColumns: number;
+  /** Rows never grow past this, however short the agenda */
+  maxRowHeight: number;
+}
+
+const LAYOUTS: Record<'night' | 'square', ListLayout> = {
+  // Top and bottom kept clear of the Stories UI (profile, reply box)
+  night: {
+    frame: {
+      size: { width: 1080, height: 1920, scale: 1 },
+      safeTop: 180,
+      safeBottom: 180,
+      padding: 72,
+    },
+    maxRows: 22,
+    maxColumns: 2,
+    maxRowHeight: 120,
+  },
+  square: {
+    frame: {
+      size: { width: 1080, height: 1080, scale: 1 },
+      safeTop: 64,
+      safeBottom: 48,
+      padding: 64,
+    },
+    maxRows: 12,
+    maxColumns: 3,
+    maxRowHeight: 96,
+  },
+};
+
+const COLUMN_GAP = 32;
+
+type ListItem =
+  | { kind: 'day'; day: number }
+  | { kind: 'event'; event: FestivalEvent };
+
+// ─── Layout ────────────────────────────────────────────────────────
+
+/** Shows in start order, with a heading per day when there are several */
+function getListItems(input: AgendaImageInput): ListItem[] {
+  const days = getAgendaDays(input);
+  return days.flatMap((day): ListItem[] => {
+    const events = sortByStart(input.events.filter((e) => e.day === day));
+    const rows: ListItem[] = events.map((event) => ({ kind: 'event', event }));
+    return days.length > 1 ? [{ kind: 'day', day }, ...rows] : rows;
+  });
+}
+
+/** Fills columns of `rows` items, never leaving a day heading last */
+function splitColumns(items: ListItem[], rows: number): ListItem[][] {
+  const columns: ListItem[][] = [[]];
+  for (const item of items) {
+    let column = columns[columns.length - 1];
+    const full =
+      column.length >= rows ||
+      (item.kind === 'day' && column.length >= rows - 1);
+    if (full && column.length > 0) {
+      column = [];
+      columns.push(column);
+    }
+    column.push(item);
+  }
+  return columns;
+}
+
+function getColumns(items: ListItem[], layout: ListLayout): ListItem[][] {
+  const count = Math.min(
+    layout.maxColumns,
+    Math.max(1, Math.ceil(items.length / layout.maxRows))
+  );
+  let rows = Math.max(1, Math.ceil(items.length / count));
+  let columns = splitColumns(items, rows);
+  while (columns.length > count) {
+    rows++;
+    columns = splitColumns(items, rows);
+  }
+  return columns;
+}
+
+export function getListImageSize(
+  template: 'night' | 'square'
+): AgendaImageSize {
+  return LAYOUTS[template].frame.size;
+}
+
+// ─── Drawing ───────────────────────────────────────────────────────
+
+function drawDayHeading(
+  ctx: Canvas2D,
+  input: AgendaImageInput,
+  day: number,
+  x: number,
+  y: number,
+  width: number,
+  height: number
+) {
+  const fontSize = Math.round(height * 0.36);
+  drawText(
+    ctx,
+    getDayImageLabel(input, day).toUpperCase(),
+    x,
+    y + height - fontSize * 1.6,
+    `700 ${fontSize}px ${FONT_BODY}`,
+    COLORS.accent,
+    width
+  );
+  ctx.fillStyle = COLORS.border;
+  ctx.fillRect(x, y + height - 4, width, 2);
+}
+
+function drawEventRow(
+  ctx: Canvas2D,
+  input: AgendaImageInput,
+  event: FestivalEvent,
+  x: number,
+  y: number,
+  width: number,
+  height: number
+) {
+  const color = getStageImageColor(event.stage);
+  const tier = input.tiers?.get(event.id);
+  const { start, end } = getEventTimeLabels(event, input.timeZone);
+  const twoLines = height >= 64;
+  const fontSize = Math.round(height * (twoLines ? 0.3 : 0.42));
+  const detailSize = Math.round(fontSize * 0.72);
+  const textHeight = twoLines ? fontSize * 1.25 + detailSize : fontSize;
+  const textY = y + (height - textHeight) / 2;
+
+  fillRoundedRect(
+    ctx,
+    x,
+    y + height * 0.12,
+    Math.max(4, Math.round(height * 0.08)),
+    height * 0.76,
+    3,
+    color.border
+  );
+
+  const timeX = x + Math.max(4, Math.round(height * 0.08)) + fontSize * 0.6;
+  ctx.font = `600 ${fontSize}px ${FONT_BODY}`;
+  const timeWidth = ctx.measureText('~00:00').width + fontSize * 0.6;
+  drawText(
+    ctx,
+    start,
+    timeX,
+    textY,
+    `600 ${fontSize}px ${FONT_BODY}`,
+    color.text,
+    timeWidth
+  );
+
+  const textX = timeX + timeWidth;
+  const textWidth = x + width - textX;
+  const artist = `${tier === 'must' ? '★ ' : ''}${event.artist}`;
+  const maybeText = tier === 'maybe' ? ' (si da)' : '';
+
+  ctx.font = `${fontSize}px ${FONT_BODY}`;
+  const maybeWidth = maybeText ? ctx.measureText(maybeText).width : 0;
+  const artistWidth = drawText(
+    ctx,
+    artist,
+    textX,
+    textY,
+    `700 ${fontSize}px ${FONT_BODY}`,
+    '#ffffff',
+    textWidth - maybeWidth
+  );
+  if (maybeText) {
+    drawText(
+      ctx,
+      maybeText,
+      textX + artistWidth,
+      textY,
+      `${fontSize}px ${FONT_BODY}`,
+      COLORS.muted,
+      maybeWidth
+    );
+  }
+
+  if (twoLines) {
+    drawText(
+      ctx,
+      `${event.stage} · hasta ${end}`,
+      textX,
+      textY + fontSize * 1.25,
+      `${detailSize}px ${FONT_BODY}`,
+      COLORS.muted,
+      textWidth
+    );
+  }
+}
+
+export function drawListImage(
+  ctx: Canvas2D,
+  input: AgendaImageInput,
+  template: 'night' | 'square'
+) {
+  const layout = LAYOUTS[template];
+  const { frame } = layout;
+  fillBackground(ctx, frame.size);
+
+  const days = getAgendaDays(input);
+  const subtitle =
+    days.length === 1
+      ? `${getDayImageLabel(input, days[0])} · ${getImageSubtitle(input)}`
+      : getImageSubtitle(input);
+  const top = drawPosterHeader(ctx, frame, getImageTitle(), subtitle);
+  const bottom =
+    frame.size.height - frame.safeBottom - getPosterFooterHeight(input, frame);
+  drawPosterFooter(ctx, input, frame);
+
+  const items = getListItems(input);
+  if (items.length === 0) return;
+
+  const columns = getColumns(items, layout);
+  const rows = Math.max(...columns.map((c) => c.length));
+  const available = bottom - top;
+  const rowHeight = Math.min(available / rows, layout.maxRowHeight);
+  const contentWidth = frame.size.width - frame.padding * 2;
+  const columnWidth =
+    (contentWidth - COLUMN_GAP * (columns.length - 1)) / columns.length;
+  const startY = top + (available - rowHeight * rows) / 2;
+
+  columns.forEach((column, c) => {
+    const x = frame.padding + c * (columnWidth + COLUMN_GAP);
+    column.forEach((item, r) => {
+      const y = startY + r * rowHeight;
+      if (item.kind === 'day') {
+        drawDayHeading(ctx, input, item.day, x, y, columnWidth, rowHeight);
+      } else {
+        drawEventRow(ctx, input, item.event, x, y, columnWidth, rowHeight);
+      }
+    });
+  });
+}
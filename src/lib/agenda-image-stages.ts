@@ -0,0 +1,443 @@
+import type { AgendaImageInput, AgendaImageSize, FestivalEvent } from './types';
+import { FESTIVAL } from './festival';
+import { getEventTimeLabels } from './data';
+import { describeConflict, detectConflicts } from './conflicts';
+import {
+  FONT_BODY,
+  FONT_HEADING,
+  IMAGE_COLORS as COLORS,
+  IMAGE_CREDIT,
+  drawText,
+  fillBackground,
+  fillRoundedRect,
+  getFooterNotes,
+  getImageSubtitle,
+  getImageTitle,
+  getStageImageColor,
+  roundedRect,
+} from './agenda-image-draw';
+import type { Canvas2D } from './agenda-image-draw';
+
+// ─── "Por escenario" template ──────────────────────────────────────
+// The original agenda image: one section per day with a card per
+// stage, two cards per row. Fixed width, height grows with the agenda.
+
+const WIDTH = 800;
+const SCALE = 2;
+
+const PADDING = 32;
+const COLUMN_GAP = 12;
+const COLUMN_WIDTH = (WIDTH - PADDING * 2 - COLUMN_GAP) / 2;
+const CONTENT_WIDTH = WIDTH - PADDING * 2;
+
+const HEADER_HEIGHT = 111;
+const CONFLICT_LINE_HEIGHT = 18;
+const CONFLICTS_MARGIN = 20;
+const DAY_HEADER_HEIGHT = 48;
+const DAY_HEADER_MARGIN = 16;
+const DAY_MARGIN = 24;
+const STAGE_HEADER_HEIGHT = 53;
+const EVENT_HEIGHT = 58;
+const EVENT_GAP = 8;
+const CARD_PADDING = 10;
+const FOOTER_LINE_HEIGHT = 21;
+
+// ─── Layout ────────────────────────────────────────────────────────
+
+interface StageGroup {
+  stage: string;
+  events: FestivalEvent[];
+}
+
+interface DayGroup {
+  day: number;
+  stages: StageGroup[];
+}
+
+/** Selected events by day, then by stage (in stage order, by start time) */
+function groupByDay(events: FestivalEvent[]): DayGroup[] {
+  const days = [...new Set(events.map((e) => e.day))].sort((a, b) => a - b);
+  const stageIndex = (stage: string) => {
+    const index = FESTIVAL.stageOrder.indexOf(stage);
+    return index === -1 ? FESTIVAL.stageOrder.length : index;
+  };
+
+  return days.map((day) => {
+    const dayEvents = events.filter((e) => e.day === day);
+    const stages = [...new Set(dayEvents.map((e) => e.stage))].sort(
+      (a, b) => stageIndex(a) - stageIndex(b) || a.localeCompare(b)
+    );
+    return {
+      day,
+      stages: stages.map((stage) => ({
+        stage,
+        events: dayEvents
+          .filter((e) => e.stage === stage)
+          .sort((a, b) => a.startMinutes - b.startMinutes),
+      })),
+    };
+  });
+}
+
+function getCardHeight(group: StageGroup): number {
+  return (
+    STAGE_HEADER_HEIGHT +
+    CARD_PADDING * 2 +
+    group.events.length * (EVENT_HEIGHT + EVENT_GAP)
+  );
+}
+
+/** Stage cards two per row; each row is as tall as its tallest card */
+function getRowHeights(day: DayGroup): number[] {
+  const heights: number[] = [];
+  for (let i = 0; i < day.stages.length; i += 2) {
+    heights.push(
+      Math.max(...day.stages.slice(i, i + 2).map((s) => getCardHeight(s)))
+    );
+  }
+  return heights;
+}
+
+function getDayHeight(day: DayGroup): number {
+  const rows = getRowHeights(day);
+  return (
+    DAY_HEADER_HEIGHT +
+    DAY_HEADER_MARGIN +
+    rows.reduce((sum, h) => sum + h, 0) +
+    (rows.length - 1) * COLUMN_GAP +
+    DAY_MARGIN
+  );
+}
+
+function getConflictsHeight(count: number): number {
+  if (count === 0) return 0;
+  return 20 + CONFLICT_LINE_HEIGHT * (count + 1) + 2 + CONFLICTS_MARGIN;
+}
+
+/** 800px wide, as tall as the agenda needs */
+export function getStagesImageSize(input: AgendaImageInput): AgendaImageSize {
+  const days = groupByDay(input.events);
+  const conflicts = detectConflicts(input.events);
+  const footerLines = getFooterNotes(input).length + 1;
+  const height =
+    PADDING +
+    HEADER_HEIGHT +
+    getConflictsHeight(conflicts.length) +
+    days.reduce((sum, day) => sum + getDayHeight(day), 0) +
+    8 +
+    1 +
+    16 +
+    footerLines * FOOTER_LINE_HEIGHT +
+    PADDING;
+  return { width: WIDTH, height, scale: SCALE };
+}
+
+// ─── Drawing ───────────────────────────────────────────────────────
+
+function drawHeader(ctx: Canvas2D, input: AgendaImageInput, y: number) {
+  const center = WIDTH / 2;
+
+  ctx.save();
+  ctx.shadowColor = 'rgba(234, 179, 8, 0.3)';
+  ctx.shadowBlur = 10;
+  ctx.shadowOffsetY = 2;
+  drawText(
+    ctx,
+    getImageTitle(),
+    center,
+    y + 2,
+    `28px ${FONT_HEADING}`,
+    COLORS.accent,
+    CONTENT_WIDTH,
+    'center'
+  );
+  ctx.restore();
+
+  drawText(
+    ctx,
+    getImageSubtitle(input),
+    center,
+    y + 45,
+    `14px ${FONT_BODY}`,
+    COLORS.muted,
+    CONTENT_WIDTH,
+    'center'
+  );
+
+  ctx.fillStyle = COLORS.border;
+  ctx.fillRect(PADDING, y + 82, CONTENT_WIDTH, 1);
+}
+
+function drawConflicts(ctx: Canvas2D, lines: string[], y: number): number {
+  if (lines.length === 0) return y;
+  const height = getConflictsHeight(lines.length) - CONFLICTS_MARGIN;
+  fillRoundedRect(
+    ctx,
+    PADDING + 0.5,
+    y + 0.5,
+    CONTENT_WIDTH - 1,
+    height - 1,
+    8,
+    COLORS.conflictBg,
+    COLORS.conflictBorder
+  );
+
+  const x = PADDING + 14;
+  const maxWidth = CONTENT_WIDTH - 28;
+  drawText(
+    ctx,
+    `${lines.length} choque${lines.length !== 1 ? 's' : ''} en la agenda`,
+    x,
+    y + 11,
+    `700 13px ${FONT_BODY}`,
+    COLORS.conflictText,
+    maxWidth
+  );
+  lines.forEach((line, i) => {
+    drawText(
+      ctx,
+      line,
+      x,
+      y + 11 + CONFLICT_LINE_HEIGHT * (i + 1),
+      `12px ${FONT_BODY}`,
+      COLORS.text,
+      maxWidth
+    );
+  });
+
+  return y + height + CONFLICTS_MARGIN;
+}
+
+function drawEvent(
+  ctx: Canvas2D,
+  event: FestivalEvent,
+  input: AgendaImageInput,
+  x: number,
+  y: number,
+  width: number
+) {
+  const color = getStageImageColor(event.stage);
+  const tier = input.tiers?.get(event.id);
+
+  ctx.save();
+  roundedRect(ctx, x, y, width, EVENT_HEIGHT, 6);
+  ctx.clip();
+  ctx.fillStyle = color.bg;
+  ctx.fillRect(x, y, width, EVENT_HEIGHT);
+  ctx.fillStyle = color.border;
+  ctx.fillRect(x, y, 3, EVENT_HEIGHT);
+  if (event.endConfidence === 'estimated') {
+    ctx.strokeStyle = `${color.border}80`;
+    ctx.lineWidth = 2;
+    ctx.setLineDash([6, 4]);
+    ctx.beginPath();
+    ctx.moveTo(x, y + EVENT_HEIGHT - 1);
+    ctx.lineTo(x + width, y + EVENT_HEIGHT - 1);
+    ctx.stroke();
+  }
+  ctx.restore();
+
+  const textX = x + 15;
+  const textWidth = width - 27;
+  const artist = `${tier === 'must' ? '★ ' : ''}${event.artist}`;
+  const maybeText = tier === 'maybe' ? ' (si da)' : '';
+
+  ctx.font = `13px ${FONT_BODY}`;
+  const maybeWidth = maybeText ? ctx.measureText(maybeText).width : 0;
+  const artistWidth = drawText(
+    ctx,
+    artist,
+    textX,
+    y + 10,
+    `700 13px ${FONT_BODY}`,
+    '#ffffff',
+    textWidth - maybeWidth
+  );
+  if (maybeText) {
+    drawText(
+      ctx,
+      maybeText,
+      textX + artistWidth,
+      y + 10,
+      `13px ${FONT_BODY}`,
+      COLORS.muted,
+      maybeWidth
+    );
+  }
+
+  const { start, end } = getEventTimeLabels(event, input.timeZone);
+  drawText(
+    ctx,
+    `${start} - ${end}`,
+    textX,
+    y + 32,
+    `600 13px ${FONT_BODY}`,
+    COLORS.muted,
+    textWidth
+  );
+}
+
+function drawStageCard(
+  ctx: Canvas2D,
+  group: StageGroup,
+  input: AgendaImageInput,
+  x: number,
+  y: number,
+  height: number
+) {
+  const color = getStageImageColor(group.stage);
+
+  ctx.save();
+  roundedRect(ctx, x, y, COLUMN_WIDTH, height, 10);
+  ctx.clip();
+  ctx.fillStyle = COLORS.surface;
+  ctx.fillRect(x, y, COLUMN_WIDTH, height);
+  ctx.fillStyle = 'rgba(0, 0, 0, 0.2)';
+  ctx.fillRect(x, y, COLUMN_WIDTH, STAGE_HEADER_HEIGHT - 2);
+  ctx.fillStyle = color.border;
+  ctx.fillRect(x, y + STAGE_HEADER_HEIGHT - 2, COLUMN_WIDTH, 2);
+  ctx.restore();
+
+  roundedRect(ctx, x + 0.5, y + 0.5, COLUMN_WIDTH - 1, height - 1, 10);
+  ctx.strokeStyle = COLORS.border;
+  ctx.lineWidth = 1;
+  ctx.stroke();
+
+  drawText(
+    ctx,
+    'ESCENARIO',
+    x + 14,
+    y + 11,
+    `10px ${FONT_BODY}`,
+    COLORS.dim,
+    COLUMN_WIDTH - 28
+  );
+  drawText(
+    ctx,
+    group.stage.toUpperCase(),
+    x + 14,
+    y + 26,
+    `14px ${FONT_HEADING}`,
+    color.text,
+    COLUMN_WIDTH - 28
+  );
+
+  let eventY = y + STAGE_HEADER_HEIGHT + CARD_PADDING;
+  for (const event of group.events) {
+    drawEvent(
+      ctx,
+      event,
+      input,
+      x + CARD_PADDING,
+      eventY,
+      COLUMN_WIDTH - CARD_PADDING * 2
+    );
+    eventY += EVENT_HEIGHT + EVENT_GAP;
+  }
+}
+
+function drawDay(
+  ctx: Canvas2D,
+  day: DayGroup,
+  input: AgendaImageInput,
+  y: number
+): number {
+  const info = input.schedules.find((s) => s.day === day.day);
+
+  fillRoundedRect(
+    ctx,
+    PADDING + 0.5,
+    y + 0.5,
+    CONTENT_WIDTH - 1,
+    DAY_HEADER_HEIGHT - 1,
+    8,
+    COLORS.surfaceAlt,
+    COLORS.border
+  );
+  const title = `DÍA ${day.day} — ${(info?.label ?? '').toUpperCase()}`;
+  const titleWidth = drawText(
+    ctx,
+    title,
+    PADDING + 16,
+    y + 14,
+    `700 18px ${FONT_BODY}`,
+    COLORS.accent,
+    CONTENT_WIDTH - 140
+  );
+  drawText(
+    ctx,
+    info?.date ?? '',
+    PADDING + 16 + titleWidth + 10,
+    y + 18,
+    `13px ${FONT_BODY}`,
+    COLORS.dim,
+    110
+  );
+
+  let rowY = y + DAY_HEADER_HEIGHT + DAY_HEADER_MARGIN;
+  getRowHeights(day).forEach((rowHeight, row) => {
+    day.stages.slice(row * 2, row * 2 + 2).forEach((group, column) => {
+      drawStageCard(
+        ctx,
+        group,
+        input,
+        PADDING + column * (COLUMN_WIDTH + COLUMN_GAP),
+        rowY,
+        getCardHeight(group)
+      );
+    });
+    rowY += rowHeight + COLUMN_GAP;
+  });
+
+  return y + getDayHeight(day);
+}
+
+function drawFooter(ctx: Canvas2D, input: AgendaImageInput, y: number) {
+  const center = WIDTH / 2;
+  ctx.fillStyle = COLORS.border;
+  ctx.fillRect(PADDING, y + 8, CONTENT_WIDTH, 1);
+
+  let lineY = y + 8 + 1 + 16;
+  for (const note of getFooterNotes(input)) {
+    drawText(
+      ctx,
+      note,
+      center,
+      lineY,
+      `11px ${FONT_BODY}`,
+      COLORS.muted,
+      CONTENT_WIDTH,
+      'center'
+    );
+    lineY += FOOTER_LINE_HEIGHT;
+  }
+  drawText(
+    ctx,
+    IMAGE_CREDIT,
+    center,
+    lineY,
+    `11px ${FONT_BODY}`,
+    COLORS.dim,
+    CONTENT_WIDTH,
+    'center'
+  );
+}
+
+export function drawStagesImage(
+  ctx: Canvas2D,
+  input: AgendaImageInput,
+  size: AgendaImageSize
+) {
+  fillBackground(ctx, size);
+  drawHeader(ctx, input, PADDING);
+
+  const conflictLines = detectConflicts(input.events).map(
+    (c) => `Día ${c.first.day}: ${describeConflict(c)}`
+  );
+  let y = drawConflicts(ctx, conflictLines, PADDING + HEADER_HEIGHT);
+  for (const day of groupByDay(input.events)) {
+    y = drawDay(ctx, day, input, y);
+  }
+
+  drawFooter(ctx, input, y);
+}
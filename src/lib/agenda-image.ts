@@ -0,0 +1,125 @@
+import type {
+  AgendaImageInput,
+  AgendaImageSize,
+  AgendaImageTemplate,
+} from './types';
+import { drawStagesImage, getStagesImageSize } from './agenda-image-stages';
+import { drawListImage, getListImageSize } from './agenda-image-list';
+import { drawGridImage, getGridImageSize } from './agenda-image-grid';
+import { renderCanvas } from './agenda-image-draw';
+import type { Canvas2D } from './agenda-image-draw';
+
+// ─── Agenda image ──────────────────────────────────────────────────
+// Draws the shareable agenda image straight to a 2D canvas from the
+// event data. Every position is computed here (no DOM, no CSS), so
+// the same agenda always produces the same image, and the renderer
+// also runs in a Web Worker with an OffscreenCanvas
+// (see src/workers/agenda-image.worker.ts). Each template lives in
+// its own ./agenda-image-*.ts module.
+
+export interface AgendaImageTemplateInfo {
+  id: AgendaImageTemplate;
+  label: string;
+  description: string;
+}
+
+/** Templates in the order the picker shows them */
+export const AGENDA_IMAGE_TEMPLATES: AgendaImageTemplateInfo[] = [
+  {
+    id: 'stages',
+    label: 'Por escenario',
+    description: 'Cada día, agrupado por escenario',
+  },
+  {
+    id: 'night',
+    label: 'Mi noche',
+    description: 'Lista en orden, para historias (9:16)',
+  },
+  {
+    id: 'square',
+    label: 'Post',
+    description: 'Lista en orden, cuadrada (1:1)',
+  },
+  {
+    id: 'grid',
+    label: 'Mini grilla',
+    description: 'Escenarios en columnas, para historias (9:16)',
+  },
+];
+
+export const DEFAULT_AGENDA_IMAGE_TEMPLATE: AgendaImageTemplate = 'stages';
+
+const TEMPLATE_KEY = 'agenda-image-template';
+
+export function getAgendaImageTemplatePreference(): AgendaImageTemplate {
+  try {
+    const saved = localStorage.getItem(TEMPLATE_KEY);
+    return (
+      AGENDA_IMAGE_TEMPLATES.find((t) => t.id === saved)?.id ??
+      DEFAULT_AGENDA_IMAGE_TEMPLATE
+    );
+  } catch {
+    return DEFAULT_AGENDA_IMAGE_TEMPLATE;
+  }
+}
+
+export function setAgendaImageTemplatePreference(
+  template: AgendaImageTemplate
+) {
+  try {
+    localStorage.setItem(TEMPLATE_KEY, template);
+  } catch {
+    // Storage disabled: the picker starts from the default next visit
+  }
+}
+
+/** Drawing size of the image for this agenda and template */
+export function getAgendaImageSize(input: AgendaImageInput): AgendaImageSize {
+  switch (input.template) {
+    case 'night':
+    case 'square':
+      return getListImageSize(input.template);
+    case 'grid':
+      return getGridImageSize();
+    default:
+      return getStagesImageSize(input);
+  }
+}
+
+/**
+ * Draws the agenda in CSS pixels, starting at (0, 0). The canvas must
+ * be `size.width` × `size.height` (times the scale already applied to
+ * the context).
+ */
+export function drawAgendaImage(
+  ctx: Canvas2D,
+  input: AgendaImageInput,
+  size: AgendaImageSize
+) {
+  switch (input.template) {
+    case 'night':
+    case 'square':
+      drawListImage(ctx, input, input.template);
+      break;
+    case 'grid':
+      drawGridImage(ctx, input);
+      break;
+    default:
+      drawStagesImage(ctx, input, size);
+  }
+}
+
+/** The agenda as a PNG */
+export async function renderAgendaImage(
+  input: AgendaImageInput
+): Promise<Blob> {
+  const size = getAgendaImageSize(input);
+  return renderCanvas(
+    Math.round(size.width * size.scale),
+    Math.round(size.height * size.scale),
+    (ctx) => {
+      ctx.scale(size.scale, size.scale);
+      drawAgendaImage(ctx, input, size);
+    }
+  );
+}
@@ -0,0 +1,239 @@
+import type { Agenda, AgendaTier, FestivalEvent } from './types';
+import { FESTIVAL_BRAND_TITLE, FESTIVAL_TITLE } from './festival';
+import { DEFAULT_TIER } from './constants';
+import { foldText } from './artists';
+import { getEventIdFromUid, parseICS } from './ics';
+import type { ParsedICSEvent } from './ics';
+import { parseShareLink } from './group';
+import { formatClock } from './time';
+
+// ─── Agenda import ─────────────────────────────────────────────────
+// Reads an agenda back from what the app hands out: a share link, an
+// .ics export or plain text (e.g. the WhatsApp text from
+// ./agenda-export.ts). Calendar events are matched by UID first
+// (`<id>@cosquin-rock-lineup`, see ./ics.ts) and otherwise by artist
+// name and start time, for files whose UIDs were rewritten by another
+// calendar app. Text is matched line by line on artist names.
+
+export type AgendaImportSource = 'link' | 'ics' | 'text';
+
+/** Add the imported shows to the agenda, or use only the imported ones */
+export type AgendaImportMode = 'merge' | 'replace';
+
+export interface AgendaImportMatch {
+  event: FestivalEvent;
+  tier: AgendaTier;
+  /** Matched on artist name (and time) rather than an exact id */
+  approximate: boolean;
+}
+
+export interface AgendaImport {
+  source: AgendaImportSource;
+  /** In chronological order, one per show */
+  matches: AgendaImportMatch[];
+  /** Calendar events or text lines with a time that match no show */
+  unmatched: string[];
+}
+
+/** How far an imported start time may be from the lineup's (schedule changes) */
+const TIME_TOLERANCE_MINUTES = 90;
+const MINUTE_MS = 60 * 1000;
+
+/** Artist names this short only match a whole line, not part of one */
+const MIN_PARTIAL_NAME_LENGTH = 3;
+
+const TIME_PATTERN = /\b([01]?\d|2[0-3])[:.h]([0-5]\d)\b/;
+
+/** Lowercase, no accents, punctuation collapsed to single spaces */
+function normalizeName(text: string): string {
+  return foldText(text)
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+}
+
+/** Whether `name` appears in `text` as whole words (both normalized) */
+function containsName(text: string, name: string): boolean {
+  if (!name) return false;
+  if (text === name) return true;
+  if (name.length < MIN_PARTIAL_NAME_LENGTH) return false;
+  return ` ${text} `.includes(` ${name} `);
+}
+
+/** The candidate closest to `start`, within the tolerance when known */
+function closestInTime(
+  candidates: FestivalEvent[],
+  start: Date | null
+): FestivalEvent | null {
+  if (!start) return candidates.length === 1 ? candidates[0] : null;
+  const distance = (e: FestivalEvent) =>
+    Math.abs(e.startAt.getTime() - start.getTime()) / MINUTE_MS;
+  const best = candidates
+    .filter((e) => distance(e) <= TIME_TOLERANCE_MINUTES)
+    .sort((a, b) => distance(a) - distance(b));
+  return best[0] ?? null;
+}
+
+/** One match per show, in chronological order */
+function dedupeMatches(matches: AgendaImportMatch[]): AgendaImportMatch[] {
+  const byId = new Map<string, AgendaImportMatch>();
+  for (const match of matches) {
+    const existing = byId.get(match.event.id);
+    if (!existing || (existing.approximate && !match.approximate)) {
+      byId.set(match.event.id, match);
+    }
+  }
+  return [...byId.values()].sort(
+    (a, b) => a.event.startAt.getTime() - b.event.startAt.getTime()
+  );
+}
+
+// ─── Share links ───────────────────────────────────────────────────
+
+/** The first share link in the text that carries an agenda */
+function importLink(text: string, events: FestivalEvent[]): Agenda | null {
+  const eventIds = events.map((e) => e.id);
+  const candidates: string[] = text.match(/https?:\/\/\S+/g) ?? [];
+  // A bare query string (or link without protocol) pasted on its own
+  if (candidates.length === 0 && !/\s/.test(text)) candidates.push(text);
+  for (const candidate of candidates) {
+    const agenda = parseShareLink(candidate, eventIds);
+    if (agenda) return agenda;
+  }
+  return null;
+}
+
+// ─── Calendar files ────────────────────────────────────────────────
+
+/** Artist part of a SUMMARY such as 'Artist - Cosquín Rock® 2026' */
+function getSummaryArtist(summary: string): string {
+  for (const title of [FESTIVAL_BRAND_TITLE, FESTIVAL_TITLE]) {
+    const suffix = ` - ${title}`;
+    if (summary.endsWith(suffix)) return summary.slice(0, -suffix.length);
+  }
+  return summary;
+}
+
+function matchICSEvent(
+  parsed: ParsedICSEvent,
+  events: FestivalEvent[]
+): AgendaImportMatch | null {
+  const id = parsed.uid ? getEventIdFromUid(parsed.uid) : null;
+  const byUid = id ? events.find((e) => e.id === id) : undefined;
+  if (byUid) return { event: byUid, tier: DEFAULT_TIER, approximate: false };
+
+  const summary = normalizeName(getSummaryArtist(parsed.summary));
+  const candidates = events.filter((e) => {
+    const artist = normalizeName(e.artist);
+    return containsName(summary, artist) || containsName(artist, summary);
+  });
+  const event = closestInTime(candidates, parsed.start);
+  return event ? { event, tier: DEFAULT_TIER, approximate: true } : null;
+}
+
+function importICS(text: string, events: FestivalEvent[]): AgendaImport {
+  const matches: AgendaImportMatch[] = [];
+  const unmatched: string[] = [];
+  for (const parsed of parseICS(text)) {
+    const match = matchICSEvent(parsed, events);
+    if (match) matches.push(match);
+    else unmatched.push(parsed.summary || parsed.uid || 'Evento sin nombre');
+  }
+  return { source: 'ics', matches: dedupeMatches(matches), unmatched };
+}
+
+// ─── Plain text ────────────────────────────────────────────────────
+
+/** Tier marks used by the text and Markdown exports */
+function getLineTier(line: string): AgendaTier {
+  const folded = foldText(line);
+  if (/[⭐★]/.test(line) || folded.includes('imperdible')) return 'must';
+  if (/\bsi da\b/.test(folded)) return 'maybe';
+  return DEFAULT_TIER;
+}
+
+function matchLine(
+  line: string,
+  events: FestivalEvent[],
+  timeZone: string
+): FestivalEvent | null {
+  const text = normalizeName(line);
+  const candidates = events.filter((e) =>
+    containsName(text, normalizeName(e.artist))
+  );
+  if (candidates.length === 0) return null;
+
+  // Longest name wins ('La Renga' over 'Renga'); a time on the line
+  // picks between shows of the same artist
+  const longest = Math.max(...candidates.map((e) => e.artist.length));
+  const named = candidates.filter((e) => e.artist.length === longest);
+  const time = TIME_PATTERN.exec(line);
+  const clock = time ? `${time[1].padStart(2, '0')}:${time[2]}` : null;
+  return (
+    named.find((e) => clock && formatClock(e.startAt, timeZone) === clock) ??
+    named[0]
+  );
+}
+
+function importText(
+  text: string,
+  events: FestivalEvent[],
+  timeZone: string
+): AgendaImport {
+  const matches: AgendaImportMatch[] = [];
+  const unmatched: string[] = [];
+  for (const line of text.split(/\r?\n/)) {
+    if (!line.trim()) continue;
+    const event = matchLine(line, events, timeZone);
+    if (event) {
+      matches.push({ event, tier: getLineTier(line), approximate: true });
+    } else if (TIME_PATTERN.test(line)) {
+      unmatched.push(line.trim());
+    }
+  }
+  return { source: 'text', matches: dedupeMatches(matches), unmatched };
+}
+
+// ─── Public API ────────────────────────────────────────────────────
+
+/**
+ * Shows in a pasted link, .ics content or text. `timeZone` is the zone
+ * of the times written in plain text (the one the app is showing).
+ */
+export function parseAgendaImport(
+  input: string,
+  events: FestivalEvent[],
+  timeZone: string
+): AgendaImport {
+  const text = input.trim();
+  if (/^BEGIN:(VCALENDAR|VEVENT)/im.test(text)) return importICS(text, events);
+
+  const linked = importLink(text, events);
+  if (linked) {
+    const matches = events
+      .filter((e) => linked.has(e.id))
+      .map((event) => ({
+        event,
+        tier: linked.get(event.id)!,
+        approximate: false,
+      }));
+    return { source: 'link', matches: dedupeMatches(matches), unmatched: [] };
+  }
+
+  return importText(text, events, timeZone);
+}
+
+/**
+ * The agenda after importing. Merging keeps the tier already set for
+ * shows that were in the agenda; replacing keeps only the imported ones.
+ */
+export function applyAgendaImport(
+  agenda: Agenda,
+  imported: AgendaImport,
+  mode: AgendaImportMode
+): Agenda {
+  const next: Agenda = mode === 'merge' ? new Map(agenda) : new Map();
+  for (const { event, tier } of imported.matches) {
+    if (!next.has(event.id)) next.set(event.id, tier);
+  }
+  return next;
+}
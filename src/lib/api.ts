@@ -0,0 +1,242 @@
+import type {
+  ArtistLinks,
+  DaySchedule,
+  FestivalEvent,
+  TimeConfidence,
+} from './types';
+import { FESTIVAL } from './festival';
+import { FESTIVAL_TIMEZONE, formatClock } from './time';
+import { getChangelog, getLineupVersion } from './changelog';
+import { getArtistSlug, getEventGenres, slugify } from './artists';
+
+// ─── Public JSON API ───────────────────────────────────────────────
+// Read-only endpoints generated at build time (src/pages/api/) for fan
+// projects and bots. The types below are the documented response
+// shapes; fields are only ever added, never renamed or removed.
+
+export const API_SCHEMA_VERSION = 1;
+
+export interface ApiMeta {
+  /** Version of these response shapes */
+  schema: number;
+  /** Lineup version from changelog.json; goes up on every lineup update */
+  version: number;
+  /** Date of that lineup version (YYYY-MM-DD) */
+  updatedAt: string;
+  /** Hash of `data`: changes whenever the content of this response does */
+  hash: string;
+  festival: string;
+  edition: string;
+  /** IANA zone of the local times (`startTime`, `endTime`) */
+  timezone: string;
+  /** Local hour where minute 0 of the grid falls (14 → 14:00) */
+  gridStartHour: number;
+}
+
+export interface ApiResponse<T> {
+  meta: ApiMeta;
+  data: T;
+}
+
+export interface ApiSet {
+  id: string;
+  artist: string;
+  /** Key of the artist in /api/artists.json, e.g. 'fito-paez' */
+  artistSlug: string;
+  day: number;
+  stage: string;
+  /** Key of the stage in /api/stages/<slug>.json */
+  stageSlug: string;
+  /** ISO 8601 timestamps in UTC */
+  startAt: string;
+  endAt: string;
+  /** Local wall-clock times in `meta.timezone` (HH:MM) */
+  startTime: string;
+  endTime: string;
+  /**
+   * Minutes since the grid start on the festival night. Sets after
+   * midnight keep counting (01:00 = 660 with a 14:00 start).
+   */
+  startMinutes: number;
+  endMinutes: number;
+  duration: number;
+  startConfidence: TimeConfidence;
+  endConfidence: TimeConfidence;
+  genres: string[];
+}
+
+export interface ApiDay {
+  day: number;
+  /** e.g. 'Sábado 14' */
+  label: string;
+  /** Local calendar date of the night (YYYY-MM-DD) */
+  date: string;
+  /** Grid bounds in minutes, rounded to whole hours */
+  startMinute: number;
+  endMinute: number;
+  stages: { name: string; slug: string; sets: ApiSet[] }[];
+}
+
+export interface ApiStage {
+  name: string;
+  slug: string;
+  days: { day: number; label: string; date: string; sets: ApiSet[] }[];
+}
+
+export interface ApiArtist {
+  slug: string;
+  name: string;
+  genres: string[];
+  country: string | null;
+  bio: string | null;
+  /** Absolute URL, when artists.json has an image */
+  image: string | null;
+  links: ArtistLinks;
+  sets: ApiSet[];
+}
+
+export interface ApiLineup {
+  days: ApiDay[];
+}
+
+export type LineupResponse = ApiResponse<ApiLineup>;
+export type DayResponse = ApiResponse<ApiDay>;
+export type StageResponse = ApiResponse<ApiStage>;
+export type ArtistsResponse = ApiResponse<ApiArtist[]>;
+
+/** FNV-1a (32 bits) of a string, as 8 hex digits */
+function hashString(text: string): string {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0');
+}
+
+function withMeta<T>(data: T): ApiResponse<T> {
+  const changelog = getChangelog();
+  return {
+    meta: {
+      schema: API_SCHEMA_VERSION,
+      version: getLineupVersion(),
+      updatedAt: changelog[changelog.length - 1]?.publishedAt ?? '',
+      hash: hashString(JSON.stringify(data)),
+      festival: FESTIVAL.name,
+      edition: FESTIVAL.edition,
+      timezone: FESTIVAL_TIMEZONE,
+      gridStartHour: FESTIVAL.gridStartHour,
+    },
+    data,
+  };
+}
+
+function toApiSet(event: FestivalEvent): ApiSet {
+  return {
+    id: event.id,
+    artist: event.artist,
+    artistSlug: getArtistSlug(event.artist),
+    day: event.day,
+    stage: event.stage,
+    stageSlug: slugify(event.stage),
+    startAt: event.startAt.toISOString(),
+    endAt: event.endAt.toISOString(),
+    startTime: formatClock(event.startAt),
+    endTime: formatClock(event.endAt),
+    startMinutes: event.startMinutes,
+    endMinutes: event.endMinutes,
+    duration: event.duration,
+    startConfidence: event.startConfidence,
+    endConfidence: event.endConfidence,
+    genres: getEventGenres(event),
+  };
+}
+
+function toApiDay(schedule: DaySchedule): ApiDay {
+  return {
+    day: schedule.day,
+    label: schedule.label,
+    date: schedule.date,
+    startMinute: schedule.startMinute,
+    endMinute: schedule.endMinute,
+    stages: schedule.stages.map((stage) => ({
+      name: stage.name,
+      slug: slugify(stage.name),
+      sets: stage.events.map(toApiSet),
+    })),
+  };
+}
+
+function getScheduleEvents(schedules: DaySchedule[]): FestivalEvent[] {
+  return schedules.flatMap((s) => s.stages.flatMap((st) => st.events));
+}
+
+/** Stages with at least one set, in display order */
+export function getApiStageNames(schedules: DaySchedule[]): string[] {
+  const events = getScheduleEvents(schedules);
+  return FESTIVAL.stageOrder.filter((stage) =>
+    events.some((e) => e.stage === stage)
+  );
+}
+
+export function getLineupResponse(schedules: DaySchedule[]): LineupResponse {
+  return withMeta({ days: schedules.map(toApiDay) });
+}
+
+export function getDayResponse(schedule: DaySchedule): DayResponse {
+  return withMeta(toApiDay(schedule));
+}
+
+export function getStageResponse(
+  schedules: DaySchedule[],
+  stage: string
+): StageResponse {
+  return withMeta({
+    name: stage,
+    slug: slugify(stage),
+    days: schedules
+      .map((schedule) => ({
+        day: schedule.day,
+        label: schedule.label,
+        date: schedule.date,
+        sets: (schedule.stages.find((s) => s.name === stage)?.events ?? []).map(
+          toApiSet
+        ),
+      }))
+      .filter((day) => day.sets.length > 0),
+  });
+}
+
+/** Every artist in the lineup, alphabetically, with their sets */
+export function getArtistsResponse(schedules: DaySchedule[]): ArtistsResponse {
+  const byArtist = new Map<string, FestivalEvent[]>();
+  const events = getScheduleEvents(schedules).sort(
+    (a, b) => a.startAt.getTime() - b.startAt.getTime()
+  );
+  for (const event of events) {
+    const slug = getArtistSlug(event.artist);
+    byArtist.set(slug, [...(byArtist.get(slug) ?? []), event]);
+  }
+
+  const artists = [...byArtist.entries()].map(([slug, sets]) => {
+    const { artist, info } = sets[0];
+    return {
+      slug,
+      name: artist,
+      genres: info?.genres ?? [],
+      country: info?.country ?? null,
+      bio: info?.bio ?? null,
+      image: info?.image ? new URL(info.image, FESTIVAL.siteUrl).href : null,
+      links: info?.links ?? {},
+      sets: sets.map(toApiSet),
+    };
+  });
+
+  return withMeta(artists.sort((a, b) => a.name.localeCompare(b.name, 'es')));
+}
+
+export function toJSONResponse(body: ApiResponse<unknown>): Response {
+  return new Response(JSON.stringify(body), {
+    headers: { 'Content-Type': 'application/json; charset=utf-8' },
+  });
+}
@@ -0,0 +1,85 @@
+import type { ArtistInfo, DaySchedule, FestivalEvent } from './types';
+import { FESTIVAL } from './festival';
+import { getArtistSlug } from './artists';
+
+// ─── Artist pages ──────────────────────────────────────────────────
+// Data for the prerendered /artista/<slug> pages: each set of the
+// artist with its neighbours on the same stage and the sets it clashes
+// with on other stages.
+
+export interface ArtistPageSet {
+  event: FestivalEvent;
+  /** Previous and next set on the same stage that night */
+  before: FestivalEvent | null;
+  after: FestivalEvent | null;
+  /** Sets on other stages that overlap in time, by start time */
+  clashes: FestivalEvent[];
+}
+
+export interface ArtistPage {
+  slug: string;
+  artist: string;
+  info?: ArtistInfo;
+  /** Chronological */
+  sets: ArtistPageSet[];
+}
+
+/** Site-relative path of an artist page, e.g. '/artista/fito-paez' */
+export function getArtistPagePath(artist: string): string {
+  return `/artista/${getArtistSlug(artist)}`;
+}
+
+export function getArtistPageUrl(artist: string): string {
+  return new URL(getArtistPagePath(artist), FESTIVAL.siteUrl).href;
+}
+
+function overlaps(a: FestivalEvent, b: FestivalEvent): boolean {
+  return a.startAt < b.endAt && b.startAt < a.endAt;
+}
+
+function getPageSet(
+  event: FestivalEvent,
+  schedule: DaySchedule
+): ArtistPageSet {
+  const stageEvents =
+    schedule.stages.find((s) => s.name === event.stage)?.events ?? [];
+  const index = stageEvents.findIndex((e) => e.id === event.id);
+
+  return {
+    event,
+    before: stageEvents[index - 1] ?? null,
+    after: stageEvents[index + 1] ?? null,
+    clashes: schedule.stages
+      .filter((s) => s.name !== event.stage)
+      .flatMap((s) => s.events.filter((e) => overlaps(e, event)))
+      .sort((a, b) => a.startAt.getTime() - b.startAt.getTime()),
+  };
+}
+
+/** One page per artist slug (an artist with two sets gets one page) */
+export function getArtistPages(schedules: DaySchedule[]): ArtistPage[] {
+  const pages = new Map<string, ArtistPage>();
+
+  for (const schedule of schedules) {
+    for (const stage of schedule.stages) {
+      for (const event of stage.events) {
+        const slug = getArtistSlug(event.artist);
+        const page = pages.get(slug) ?? {
+          slug,
+          artist: event.artist,
+          info: event.info,
+          sets: [],
+        };
+        page.sets.push(getPageSet(event, schedule));
+        pages.set(slug, page);
+      }
+    }
+  }
+
+  for (const page of pages.values()) {
+    page.sets.sort(
+      (a, b) => a.event.startAt.getTime() - b.event.startAt.getTime()
+    );
+  }
+  return [...pages.values()];
+}
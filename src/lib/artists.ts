@@ -0,0 +1,88 @@
+import type { ArtistInfo } from './types';
+import artistsData from '../../artists.json';
+
+// ─── Artist metadata ───────────────────────────────────────────────
+// Optional genres, country, bio, image and links per artist, kept in
+// artists.json keyed by artist slug. Artists without an entry render
+// exactly as before.
+
+/** Lowercase without diacritics, e.g. 'GUTIÉRREZ' → 'gutierrez' */
+export function foldText(text: string): string {
+  return text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase();
+}
+
+/** URL-safe key, e.g. 'Electrónica' → 'electronica' */
+export function slugify(text: string): string {
+  return foldText(text)
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+}
+
+/** Key of the artist in artists.json, e.g. 'FITO PAEZ' → 'fito-paez' */
+export function getArtistSlug(artist: string): string {
+  return slugify(artist);
+}
+
+export function getArtistsData(): Record<string, ArtistInfo> {
+  return artistsData as Record<string, ArtistInfo>;
+}
+
+export function getArtistInfo(artist: string): ArtistInfo | undefined {
+  return getArtistsData()[getArtistSlug(artist)];
+}
+
+/** Whether there is anything to show in the detail sheet */
+export function hasArtistInfo(info: ArtistInfo | undefined): boolean {
+  return Boolean(
+    info &&
+    (info.genres?.length ||
+      info.country ||
+      info.bio ||
+      info.image ||
+      info.links?.spotify ||
+      info.links?.youtube ||
+      info.links?.instagram)
+  );
+}
+
+// ─── Genre tags ────────────────────────────────────────────────────
+
+export interface GenreTag {
+  /** URL-safe key, e.g. 'electronica' */
+  slug: string;
+  label: string;
+  /** Number of sets with this genre */
+  count: number;
+}
+
+export function getEventGenres(event: { info?: ArtistInfo }): string[] {
+  return event.info?.genres ?? [];
+}
+
+/** Every genre in the lineup, most common first */
+export function getGenreTags(events: { info?: ArtistInfo }[]): GenreTag[] {
+  const tags = new Map<string, GenreTag>();
+  for (const event of events) {
+    for (const label of getEventGenres(event)) {
+      const slug = slugify(label);
+      const tag = tags.get(slug) ?? { slug, label, count: 0 };
+      tag.count++;
+      tags.set(slug, tag);
+    }
+  }
+  return [...tags.values()].sort(
+    (a, b) => b.count - a.count || a.label.localeCompare(b.label, 'es')
+  );
+}
+
+/** Sets tagged with any of the given genre slugs (all sets when empty) */
+export function matchesGenres(
+  event: { info?: ArtistInfo },
+  genreSlugs: Set<string>
+): boolean {
+  if (genreSlugs.size === 0) return true;
+  return getEventGenres(event).some((g) => genreSlugs.has(slugify(g)));
+}
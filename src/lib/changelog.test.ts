@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest';
+import type {
+  LineupChange,
+  LineupChangeType,
+  LineupRelease,
+  LineupSlot,
+} from './types';
+import { getChangesSince } from './changelog';
+
+const SLOT: LineupSlot = {
+  day: 1,
+  stage: 'Norte',
+  startAt: '2026-02-14T20:00:00Z',
+  endAt: '2026-02-14T21:00:00Z',
+};
+
+function change(
+  type: LineupChangeType,
+  id: string,
+  slot: Partial<LineupSlot> = {}
+): LineupChange {
+  return { type, id, artist: `Artista ${id}`, ...SLOT, ...slot };
+}
+
+function release(version: number, changes: LineupChange[]): LineupRelease {
+  return { version, publishedAt: '2026-01-01', changes };
+}
+
+describe('getChangesSince', () => {
+  it('drops a show added and then removed', () => {
+    const changelog = [
+      release(2, [change('added', '7')]),
+      release(3, [change('removed', '7')]),
+    ];
+    expect(getChangesSince(changelog, 1)).toEqual([]);
+  });
+
+  it('drops a show removed and added back in the same slot', () => {
+    const changelog = [
+      release(2, [change('removed', '3')]),
+      release(3, [change('added', '3')]),
+    ];
+    expect(getChangesSince(changelog, 1)).toEqual([]);
+    expect(getChangesSince(changelog, 2)).toEqual([change('added', '3')]);
+  });
+
+  it('reports a show removed and added back elsewhere as moved', () => {
+    const changelog = [
+      release(2, [change('removed', '3')]),
+      release(3, [change('added', '3', { stage: 'Sur' })]),
+    ];
+    expect(getChangesSince(changelog, 1)).toEqual([
+      { ...change('moved', '3', { stage: 'Sur' }), previous: SLOT },
+    ]);
+  });
+});
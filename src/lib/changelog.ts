@@ -0,0 +1,96 @@
+import type { LineupChange, LineupRelease, LineupSlot } from './types';
+import changelogData from '../../changelog.json';
+
+// ─── Lineup versions ───────────────────────────────────────────────
+// Every time data.json is updated, a new entry is appended to
+// changelog.json describing what was added, removed or moved. Clients
+// remember the last version they saw and get a summary of the changes.
+
+const SEEN_VERSION_KEY = 'lineup-seen-version';
+
+export function getChangelog(): LineupRelease[] {
+  return [...(changelogData as LineupRelease[])].sort(
+    (a, b) => a.version - b.version
+  );
+}
+
+export function getLineupVersion(): number {
+  const changelog = getChangelog();
+  return changelog.length > 0 ? changelog[changelog.length - 1].version : 0;
+}
+
+function isSameSlot(a: LineupSlot, b: LineupSlot): boolean {
+  return (
+    a.day === b.day &&
+    a.stage === b.stage &&
+    Date.parse(a.startAt) === Date.parse(b.startAt) &&
+    Date.parse(a.endAt) === Date.parse(b.endAt)
+  );
+}
+
+/**
+ * Changes published after `sinceVersion`, collapsed to one entry per
+ * event (e.g. added and then moved shows up as a single 'added', and
+ * removed and then added back as 'moved', or nothing if the slot is
+ * the same).
+ */
+export function getChangesSince(
+  changelog: LineupRelease[],
+  sinceVersion: number
+): LineupChange[] {
+  const byId = new Map<string, LineupChange>();
+
+  for (const release of changelog) {
+    if (release.version <= sinceVersion) continue;
+
+    for (const change of release.changes) {
+      const prev = byId.get(change.id);
+      if (!prev) {
+        byId.set(change.id, change);
+      } else if (prev.type === 'added' && change.type === 'removed') {
+        byId.delete(change.id); // never seen by this client
+      } else if (prev.type === 'removed' && change.type === 'added') {
+        // Already seen by this client, in the slot it was removed from
+        if (isSameSlot(prev, change)) {
+          byId.delete(change.id);
+        } else {
+          const { day, stage, startAt, endAt } = prev;
+          byId.set(change.id, {
+            ...change,
+            type: 'moved',
+            previous: { day, stage, startAt, endAt },
+          });
+        }
+      } else if (prev.type === 'added') {
+        byId.set(change.id, { ...change, type: 'added', previous: undefined });
+      } else if (prev.type === 'moved' && change.type === 'moved') {
+        byId.set(change.id, { ...change, previous: prev.previous });
+      } else {
+        byId.set(change.id, change);
+      }
+    }
+  }
+
+  return [...byId.values()].sort(
+    (a, b) => a.day - b.day || Date.parse(a.startAt) - Date.parse(b.startAt)
+  );
+}
+
+// ─── Last seen version (localStorage) ──────────────────────────────
+
+export function getSeenVersion(): number | null {
+  try {
+    const value = Number(localStorage.getItem(SEEN_VERSION_KEY));
+    return Number.isInteger(value) && value > 0 ? value : null;
+  } catch {
+    return null;
+  }
+}
+
+export function setSeenVersion(version: number) {
+  try {
+    localStorage.setItem(SEEN_VERSION_KEY, String(version));
+  } catch {
+    // Private mode / storage disabled: the panel will show again next visit
+  }
+}
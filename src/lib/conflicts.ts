@@ -0,0 +1,124 @@
+import type { Conflict, ConflictKind, FestivalEvent } from './types';
+import { FESTIVAL } from './festival';
+
+// ─── Agenda conflicts ──────────────────────────────────────────────
+// Flags selected shows that overlap, or that leave less time than the
+// walk between their stages (see FESTIVAL.walkingTimes).
+
+const MINUTE_MS = 60 * 1000;
+
+const walkingTable = new Map<string, number>();
+for (const { stages, minutes } of FESTIVAL.walkingTimes.between) {
+  walkingTable.set(`${stages[0]}|${stages[1]}`, minutes);
+  walkingTable.set(`${stages[1]}|${stages[0]}`, minutes);
+}
+
+const MAX_WALKING_MINUTES = Math.max(
+  FESTIVAL.walkingTimes.defaultMinutes,
+  ...FESTIVAL.walkingTimes.between.map((b) => b.minutes)
+);
+
+export function getWalkingMinutes(from: string, to: string): number {
+  if (from === to) return 0;
+  return (
+    walkingTable.get(`${from}|${to}`) ?? FESTIVAL.walkingTimes.defaultMinutes
+  );
+}
+
+/**
+ * Conflict between two shows, or null when there's enough time to walk
+ * from one to the other. `first` must start no later than `second`.
+ */
+export function getConflict(
+  first: FestivalEvent,
+  second: FestivalEvent
+): Conflict | null {
+  const gapMinutes =
+    (second.startAt.getTime() - first.endAt.getTime()) / MINUTE_MS;
+  const walkMinutes = getWalkingMinutes(first.stage, second.stage);
+  if (gapMinutes >= walkMinutes) return null;
+
+  return {
+    kind: gapMinutes < 0 ? 'overlap' : 'tight',
+    first,
+    second,
+    gapMinutes,
+    walkMinutes,
+    estimated:
+      first.endConfidence === 'estimated' ||
+      second.startConfidence === 'estimated',
+  };
+}
+
+/** All overlaps and tight transfers among the given events */
+export function detectConflicts(events: FestivalEvent[]): Conflict[] {
+  const sorted = [...events].sort(
+    (a, b) => a.startAt.getTime() - b.startAt.getTime()
+  );
+  const conflicts: Conflict[] = [];
+
+  for (let i = 0; i < sorted.length; i++) {
+    const first = sorted[i];
+    for (let j = i + 1; j < sorted.length; j++) {
+      const second = sorted[j];
+      const gapMinutes =
+        (second.startAt.getTime() - first.endAt.getTime()) / MINUTE_MS;
+      // Sorted by start: nothing further can clash with `first`
+      if (gapMinutes >= MAX_WALKING_MINUTES) break;
+
+      const conflict = getConflict(first, second);
+      if (conflict) conflicts.push(conflict);
+    }
+  }
+
+  return conflicts;
+}
+
+/** Conflicts indexed by the id of each event involved */
+export function groupConflictsByEvent(
+  conflicts: Conflict[]
+): Map<string, Conflict[]> {
+  const byEvent = new Map<string, Conflict[]>();
+  for (const conflict of conflicts) {
+    for (const id of [conflict.first.id, conflict.second.id]) {
+      if (!byEvent.has(id)) byEvent.set(id, []);
+      byEvent.get(id)!.push(conflict);
+    }
+  }
+  return byEvent;
+}
+
+/** 'overlap' wins over 'tight'; null when there are no conflicts */
+export function getWorstConflictKind(
+  conflicts: Conflict[]
+): ConflictKind | null {
+  if (conflicts.length === 0) return null;
+  return conflicts.some((c) => c.kind === 'overlap') ? 'overlap' : 'tight';
+}
+
+/** Short description of a conflict; from `eventId`'s point of view if given */
+export function describeConflict(conflict: Conflict, eventId?: string): string {
+  const other =
+    eventId === conflict.first.id ? conflict.second : conflict.first;
+  const withText = eventId
+    ? `${other.artist} (${other.stage})`
+    : `${conflict.first.artist} y ${conflict.second.artist}`;
+  const estimatedText = conflict.estimated ? ' (horario estimado)' : '';
+
+  if (conflict.kind === 'overlap') {
+    const overlap = Math.min(
+      -conflict.gapMinutes,
+      (conflict.second.endAt.getTime() - conflict.second.startAt.getTime()) /
+        MINUTE_MS
+    );
+    return eventId
+      ? `Se superpone ${overlap} min con ${withText}${estimatedText}`
+      : `${withText} se superponen ${overlap} min${estimatedText}`;
+  }
+
+  if (eventId) {
+    const direction = eventId === conflict.first.id ? 'hasta' : 'desde';
+    return `Solo ${conflict.gapMinutes} min ${direction} ${withText}; caminando son ~${conflict.walkMinutes} min${estimatedText}`;
+  }
+  return `${withText}: solo ${conflict.gapMinutes} min para ir de ${conflict.first.stage} a ${conflict.second.stage}, caminando son ~${conflict.walkMinutes} min${estimatedText}`;
+}
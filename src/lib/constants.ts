@@ -1,2 +1,27 @@
+import type { AgendaTier } from './types';
+
 // ─── Shared UI Constants ───────────────────────────────────────────
 export const PX_PER_MINUTE = 2;
+
+export const DEFAULT_TIER: AgendaTier = 'want';
+
+export const TIER_LABELS: Record<AgendaTier, string> = {
+  must: 'Imperdible',
+  want: 'Me gustaría',
+  maybe: 'Si da',
+};
+
+/** Display / cycling order, from most to least wanted */
+export const TIER_ORDER: AgendaTier[] = ['must', 'want', 'maybe'];
+
+/** Per-person marker colors in the group view (cycled past 8 people) */
+export const GROUP_COLORS = [
+  '#facc15',
+  '#38bdf8',
+  '#4ade80',
+  '#f472b6',
+  '#a78bfa',
+  '#fb923c',
+  '#2dd4bf',
+  '#f87171',
+];
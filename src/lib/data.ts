@@ -3,49 +3,25 @@ import type {
   FestivalEvent,
   DaySchedule,
   StageColumn,
+  TimeConfidence,
 } from './types';
+import { FESTIVAL, FESTIVAL_TITLE } from './festival';
+import { FESTIVAL_TIMEZONE, formatClock, toGridMinutes } from './time';
+import { getArtistInfo } from './artists';
 import rawData from '../../data.json';
 
 /**
- * The festival grid starts at 14:00 local time (Argentina, UTC-3).
- * Times after midnight (00:00-06:00) are treated as 24:00-30:00
- * so they render at the bottom of the grid.
- *
- * The raw data uses UTC timestamps (Z suffix).
- * Argentina is UTC-3, so we subtract 3 hours to get local time.
+ * Events are positioned on the grid in minutes since the grid start
+ * (`FESTIVAL.gridStartHour`, festival timezone). See ./time.ts for the
+ * after-midnight normalization.
  */
 
-const GRID_START_HOUR = 14; // 14:00 local time
-const GRID_START_MINUTES = GRID_START_HOUR * 60; // 840
-const UTC_OFFSET_HOURS = -3; // Argentina UTC-3
-
-function utcToLocalMinutes(date: Date): number {
-  const utcHours = date.getUTCHours();
-  const utcMinutes = date.getUTCMinutes();
-  let localHours = utcHours + UTC_OFFSET_HOURS;
-  if (localHours < 0) localHours += 24;
-
-  let totalMinutes = localHours * 60 + utcMinutes;
-
-  // Normalize: if before grid start (14:00), it's after midnight
-  // Treat as 24:xx, 25:xx, etc.
-  if (totalMinutes < GRID_START_MINUTES) {
-    totalMinutes += 24 * 60; // add 24 hours
-  }
-
-  return totalMinutes;
-}
-
-function normalizeMinutes(minutes: number): number {
-  return minutes - GRID_START_MINUTES;
-}
-
 function parseEvents(): FestivalEvent[] {
   return (rawData as RawEvent[]).map((raw) => {
     const startAt = new Date(raw.startAt);
     const endAt = new Date(raw.endAt);
-    const startMinutes = normalizeMinutes(utcToLocalMinutes(startAt));
-    const endMinutes = normalizeMinutes(utcToLocalMinutes(endAt));
+    const startMinutes = toGridMinutes(startAt);
+    const endMinutes = toGridMinutes(endAt);
     const duration = endMinutes - startMinutes;
 
     return {
@@ -58,34 +34,24 @@ function parseEvents(): FestivalEvent[] {
       startMinutes,
       endMinutes,
       duration,
+      startConfidence: raw.startConfidence ?? 'confirmed',
+      endConfidence: raw.endConfidence ?? 'estimated',
+      info: getArtistInfo(raw.artist),
     };
   });
 }
 
-// Stage display order
-const STAGE_ORDER: string[] = [
-  'Norte',
-  'Sur',
-  'Montaña',
-  'Boomerang',
-  'Paraguay',
-  'La Casita del Blues',
-  'La Plaza Electronic Stage',
-  'Sorpresa',
-];
-
 export function getDaySchedules(): DaySchedule[] {
   const events = parseEvents();
-  const days = [1, 2];
 
-  return days.map((day) => {
+  return FESTIVAL.days.map(({ day, label, date }) => {
     const dayEvents = events.filter((e) => e.day === day);
     const stageNames = [...new Set(dayEvents.map((e) => e.stage))];
 
     // Sort stages by predefined order
     stageNames.sort((a, b) => {
-      const ai = STAGE_ORDER.indexOf(a);
-      const bi = STAGE_ORDER.indexOf(b);
+      const ai = FESTIVAL.stageOrder.indexOf(a);
+      const bi = FESTIVAL.stageOrder.indexOf(b);
       return (ai === -1 ? 99 : ai) - (bi === -1 ? 99 : bi);
     });
 
@@ -97,13 +63,14 @@ export function getDaySchedules(): DaySchedule[] {
     }));
 
     const allMinutes = dayEvents.flatMap((e) => [e.startMinutes, e.endMinutes]);
+    if (allMinutes.length === 0) allMinutes.push(0); // day without events yet
     const startMinute = Math.floor(Math.min(...allMinutes) / 60) * 60; // round down to hour
     const endMinute = Math.ceil(Math.max(...allMinutes) / 60) * 60; // round up to hour
 
     return {
       day,
-      label: day === 1 ? 'Sábado 14' : 'Domingo 15',
-      date: day === 1 ? '2026-02-14' : '2026-02-15',
+      label,
+      date,
       stages,
       startMinute,
       endMinute,
@@ -115,33 +82,92 @@ export function getAllEvents(): FestivalEvent[] {
   return parseEvents();
 }
 
-export function formatTime(normalizedMinutes: number): string {
-  const totalMinutes = normalizedMinutes + GRID_START_MINUTES;
-  const hours = Math.floor(totalMinutes / 60) % 24;
-  const minutes = totalMinutes % 60;
-  return `${hours.toString().padStart(2, '0')}:${minutes.toString().padStart(2, '0')}`;
+/** Start/end times in `timeZone`, with "~" before the ones that are estimates */
+export function getEventTimeLabels(
+  event: FestivalEvent,
+  timeZone: string = FESTIVAL_TIMEZONE
+): {
+  start: string;
+  end: string;
+} {
+  const prefix = (confidence: TimeConfidence) =>
+    confidence === 'estimated' ? '~' : '';
+  return {
+    start: prefix(event.startConfidence) + formatClock(event.startAt, timeZone),
+    end: prefix(event.endConfidence) + formatClock(event.endAt, timeZone),
+  };
+}
+
+export function hasEstimatedTimes(event: FestivalEvent): boolean {
+  return (
+    event.startConfidence === 'estimated' || event.endConfidence === 'estimated'
+  );
+}
+
+/** Spoken version of the time range, for aria-labels */
+export function getEventTimeRangeLabel(
+  event: FestivalEvent,
+  timeZone: string = FESTIVAL_TIMEZONE
+): string {
+  const start = formatClock(event.startAt, timeZone);
+  const end = formatClock(event.endAt, timeZone);
+  const startText =
+    event.startConfidence === 'estimated' ? `aproximadamente ${start}` : start;
+  const endText =
+    event.endConfidence === 'estimated' ? `aproximadamente ${end}` : end;
+  return `${startText} a ${endText}`;
+}
+
+/** Note for calendar descriptions when a time is an estimate */
+export function getEstimateNote(event: FestivalEvent): string | null {
+  if (
+    event.startConfidence === 'estimated' &&
+    event.endConfidence === 'estimated'
+  )
+    return 'Horarios de inicio y fin estimados.';
+  if (event.startConfidence === 'estimated')
+    return 'Horario de inicio estimado.';
+  if (event.endConfidence === 'estimated')
+    return 'Horario de fin estimado (la organización solo publica el horario de inicio).';
+  return null;
 }
 
-export function getEventLocalTime(date: Date): string {
-  const utcHours = date.getUTCHours();
-  const utcMinutes = date.getUTCMinutes();
-  let localHours = utcHours + UTC_OFFSET_HOURS;
-  if (localHours < 0) localHours += 24;
-  return `${localHours.toString().padStart(2, '0')}:${utcMinutes.toString().padStart(2, '0')}`;
+/** Title, location and description shared by every calendar target */
+function getCalendarEventText(event: FestivalEvent) {
+  const estimateNote = getEstimateNote(event);
+  return {
+    title: `${event.artist} - ${FESTIVAL_TITLE}`,
+    location: `Escenario ${event.stage}, ${FESTIVAL.name}, ${FESTIVAL.location}`,
+    details: `${event.artist} en el escenario ${event.stage} del ${FESTIVAL_TITLE}.${estimateNote ? `\n${estimateNote}` : ''}`,
+  };
 }
 
 export function generateGoogleCalendarUrl(event: FestivalEvent): string {
-  const start = formatDateForGCal(event.startAt);
-  const end = formatDateForGCal(event.endAt);
-  const title = encodeURIComponent(`${event.artist} - Cosquín Rock 2026`);
-  const location = encodeURIComponent(
-    `Escenario ${event.stage}, Cosquín Rock, Córdoba, Argentina`
-  );
-  const details = encodeURIComponent(
-    `${event.artist} en el escenario ${event.stage} del Cosquín Rock 2026.`
-  );
+  const { title, location, details } = getCalendarEventText(event);
+  const params = new URLSearchParams({
+    action: 'TEMPLATE',
+    text: title,
+    dates: `${formatDateForGCal(event.startAt)}/${formatDateForGCal(event.endAt)}`,
+    location,
+    details,
+    ctz: FESTIVAL_TIMEZONE,
+  });
+  return `https://calendar.google.com/calendar/render?${params}`;
+}
 
-  return `https://calendar.google.com/calendar/render?action=TEMPLATE&text=${title}&dates=${start}/${end}&location=${location}&details=${details}`;
+/** Outlook on the web (personal accounts; work accounts redirect to it too) */
+export function generateOutlookCalendarUrl(event: FestivalEvent): string {
+  const { title, location, details } = getCalendarEventText(event);
+  const params = new URLSearchParams({
+    path: '/calendar/action/compose',
+    rru: 'addevent',
+    subject: title,
+    startdt: event.startAt.toISOString(),
+    enddt: event.endAt.toISOString(),
+    location,
+    body: details,
+  });
+  return `https://outlook.live.com/calendar/0/deeplink/compose?${params}`;
 }
 
 function formatDateForGCal(date: Date): string {
@@ -150,31 +176,3 @@ function formatDateForGCal(date: Date): string {
     .replace(/[-:]/g, '')
     .replace(/\.\d{3}/, '');
 }
-
-export function generateICS(events: FestivalEvent[]): string {
-  const lines = [
-    'BEGIN:VCALENDAR',
-    'VERSION:2.0',
-    'PRODID:-//Cosquin Rock Lineup//ES',
-    'CALSCALE:GREGORIAN',
-    'METHOD:PUBLISH',
-  ];
-
-  for (const event of events) {
-    lines.push(
-      'BEGIN:VEVENT',
-      `DTSTART:${formatDateForGCal(event.startAt)}`,
-      `DTEND:${formatDateForGCal(event.endAt)}`,
-      `SUMMARY:${event.artist} - Cosquín Rock® 2026`,
-      `LOCATION:Escenario ${event.stage}\\, Cosquín Rock®\\, Córdoba\\, Argentina`,
-      `DESCRIPTION:${event.artist} en el escenario ${event.stage} del Cosquín Rock® 2026.`,
-      `UID:${event.id}@cosquin-rock-lineup`,
-      'END:VEVENT'
-    );
-  }
-
-  lines.push('END:VCALENDAR');
-  return lines.join('\r\n');
-}
-
-export { GRID_START_MINUTES };
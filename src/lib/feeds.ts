@@ -0,0 +1,88 @@
+import type { DaySchedule, FestivalEvent } from './types';
+import { FESTIVAL, FESTIVAL_BRAND_TITLE } from './festival';
+import { getChangelog } from './changelog';
+import { slugify } from './artists';
+
+// ─── Calendar feeds ────────────────────────────────────────────────
+// Public .ics files generated at build time (src/pages/calendario/):
+// the whole lineup, each day and each stage. Subscribing to them keeps
+// calendars in sync with lineup updates, since UIDs never change.
+
+export type CalendarFeedKind = 'full' | 'day' | 'stage';
+
+export interface CalendarFeed {
+  /** File name without extension, e.g. 'dia-1', 'norte' */
+  slug: string;
+  kind: CalendarFeedKind;
+  /** e.g. 'Día 1 — Sábado 14', 'Escenario Norte' */
+  label: string;
+  events: FestivalEvent[];
+}
+
+export const FULL_FEED_SLUG = 'grilla-completa';
+
+export function getDayFeedSlug(day: number): string {
+  return `dia-${day}`;
+}
+
+export function getCalendarFeeds(schedules: DaySchedule[]): CalendarFeed[] {
+  const allEvents = schedules.flatMap((s) =>
+    s.stages.flatMap((st) => st.events)
+  );
+  const stageNames = FESTIVAL.stageOrder.filter((stage) =>
+    allEvents.some((e) => e.stage === stage)
+  );
+
+  return [
+    {
+      slug: FULL_FEED_SLUG,
+      kind: 'full' as const,
+      label: 'Grilla completa',
+      events: allEvents,
+    },
+    ...schedules.map((s) => ({
+      slug: getDayFeedSlug(s.day),
+      kind: 'day' as const,
+      label: `Día ${s.day} — ${s.label}`,
+      events: s.stages.flatMap((st) => st.events),
+    })),
+    ...stageNames.map((stage) => ({
+      slug: slugify(stage),
+      kind: 'stage' as const,
+      label: `Escenario ${stage}`,
+      events: allEvents.filter((e) => e.stage === stage),
+    })),
+  ].filter((feed) => feed.events.length > 0);
+}
+
+export function getFeedCalendarName(feed: CalendarFeed): string {
+  return `${FESTIVAL_BRAND_TITLE} — ${feed.label}`;
+}
+
+/** Site-relative path of a feed, e.g. '/calendario/dia-1.ics' */
+export function getFeedPath(slug: string): string {
+  return `/calendario/${slug}.ics`;
+}
+
+/** webcal:// URL, which calendar apps open as a subscription */
+export function getFeedWebcalUrl(slug: string): string {
+  return new URL(getFeedPath(slug), FESTIVAL.siteUrl).href.replace(
+    /^https?:/,
+    'webcal:'
+  );
+}
+
+/** Google Calendar's "add by URL" page for a feed */
+export function getFeedGoogleUrl(slug: string): string {
+  return `https://calendar.google.com/calendar/r?cid=${encodeURIComponent(getFeedWebcalUrl(slug))}`;
+}
+
+/**
+ * DTSTAMP of the feeds: the date of the latest lineup version, so a
+ * rebuild without lineup changes produces identical files.
+ */
+export function getFeedTimestamp(): Date {
+  const changelog = getChangelog();
+  const latest = changelog[changelog.length - 1];
+  return latest ? new Date(`${latest.publishedAt}T00:00:00Z`) : new Date(0);
+}
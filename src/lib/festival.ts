@@ -0,0 +1,60 @@
+import type { FestivalConfig } from './types';
+
+// ─── Festival / edition configuration ──────────────────────────────
+// Everything edition-specific lives here so the app can be reused for
+// the next edition or for sister festivals by editing this file and
+// data.json.
+
+export const FESTIVAL: FestivalConfig = {
+  name: 'Cosquín Rock',
+  brandName: 'Cosquín Rock®',
+  edition: '2026',
+  slug: 'cosquin-rock-2026',
+  datesLabel: '14 y 15 de Febrero 2026',
+  location: 'Córdoba, Argentina',
+  officialUrl: 'https://cosquinrock.net/',
+  siteUrl: 'https://cosquin-rock-lineup.vercel.app',
+  timezone: 'America/Argentina/Cordoba',
+  gridStartHour: 14,
+  days: [
+    { day: 1, label: 'Sábado 14', date: '2026-02-14' },
+    { day: 2, label: 'Domingo 15', date: '2026-02-15' },
+  ],
+  stageOrder: [
+    'Norte',
+    'Sur',
+    'Montaña',
+    'Boomerang',
+    'Paraguay',
+    'La Casita del Blues',
+    'La Plaza Electronic Stage',
+    'Sorpresa',
+  ],
+  walkingTimes: {
+    defaultMinutes: 10,
+    between: [
+      { stages: ['Norte', 'Sur'], minutes: 4 },
+      { stages: ['Norte', 'Montaña'], minutes: 8 },
+      { stages: ['Sur', 'Montaña'], minutes: 6 },
+      { stages: ['Boomerang', 'Paraguay'], minutes: 5 },
+      { stages: ['Norte', 'La Casita del Blues'], minutes: 15 },
+      { stages: ['Sur', 'La Casita del Blues'], minutes: 13 },
+      { stages: ['Montaña', 'La Casita del Blues'], minutes: 12 },
+      { stages: ['Norte', 'La Plaza Electronic Stage'], minutes: 12 },
+      { stages: ['Sur', 'La Plaza Electronic Stage'], minutes: 10 },
+      {
+        stages: ['La Casita del Blues', 'La Plaza Electronic Stage'],
+        minutes: 8,
+      },
+    ],
+  },
+};
+
+/** e.g. 'Cosquín Rock 2026' */
+export const FESTIVAL_TITLE = `${FESTIVAL.name} ${FESTIVAL.edition}`;
+
+/** e.g. 'Cosquín Rock® 2026' */
+export const FESTIVAL_BRAND_TITLE = `${FESTIVAL.brandName} ${FESTIVAL.edition}`;
+
+/** Host shown in generated images, e.g. 'cosquin-rock-lineup.vercel.app' */
+export const SITE_HOST = new URL(FESTIVAL.siteUrl).host;
@@ -0,0 +1,112 @@
+import type {
+  Agenda,
+  FestivalEvent,
+  GroupAttendee,
+  GroupMember,
+} from './types';
+import { GROUP_COLORS } from './constants';
+import { decodeAgenda, encodeAgenda } from './agenda-code';
+import { readAgendaParams } from './url-state';
+
+// ─── Group view ────────────────────────────────────────────────────
+// Friends' shared agendas overlaid on one grid. Members are kept in
+// localStorage as name + compact agenda code (see ./agenda-code.ts), so
+// they survive lineup updates the same way share links do.
+
+const GROUP_KEY = 'agenda-group';
+
+interface StoredMember {
+  name: string;
+  code: string;
+}
+
+/** Marker color of the member at `index` in the group */
+export function getMemberColor(index: number): string {
+  return GROUP_COLORS[index % GROUP_COLORS.length];
+}
+
+/**
+ * Agenda in a pasted share link. Accepts a full URL or just its query
+ * string; `null` when it has no selected shows.
+ */
+export function parseShareLink(
+  input: string,
+  eventIds: string[]
+): Agenda | null {
+  const value = input.trim();
+  let params: URLSearchParams;
+  try {
+    params = new URL(value).searchParams;
+  } catch {
+    params = new URLSearchParams(value.slice(value.indexOf('?') + 1));
+  }
+  const agenda = readAgendaParams(params, eventIds);
+  return agenda.size > 0 ? agenda : null;
+}
+
+/** Members going to each event, by event id */
+export function getGroupAttendance(
+  members: GroupMember[]
+): Map<string, GroupAttendee[]> {
+  const attendance = new Map<string, GroupAttendee[]>();
+  members.forEach((member, index) => {
+    const attendee = { name: member.name, color: getMemberColor(index) };
+    for (const id of member.agenda.keys()) {
+      if (!attendance.has(id)) attendance.set(id, []);
+      attendance.get(id)!.push(attendee);
+    }
+  });
+  return attendance;
+}
+
+/**
+ * Shows with the most friends on each day (at least two), the natural
+ * meetup points.
+ */
+export function getMostSharedIds(
+  events: FestivalEvent[],
+  attendance: Map<string, GroupAttendee[]>
+): Set<string> {
+  const maxByDay = new Map<number, number>();
+  for (const event of events) {
+    const count = attendance.get(event.id)?.length ?? 0;
+    maxByDay.set(event.day, Math.max(maxByDay.get(event.day) ?? 0, count));
+  }
+
+  return new Set(
+    events
+      .filter((event) => {
+        const count = attendance.get(event.id)?.length ?? 0;
+        return count >= 2 && count === maxByDay.get(event.day);
+      })
+      .map((event) => event.id)
+  );
+}
+
+// ─── Saved group (localStorage) ────────────────────────────────────
+
+export function loadGroup(eventIds: string[]): GroupMember[] {
+  try {
+    const stored = JSON.parse(
+      localStorage.getItem(GROUP_KEY) ?? '[]'
+    ) as StoredMember[];
+    return stored.flatMap(({ name, code }) => {
+      const agenda = decodeAgenda(code, eventIds);
+      return agenda ? [{ name, agenda }] : [];
+    });
+  } catch {
+    return [];
+  }
+}
+
+export function saveGroup(members: GroupMember[], eventIds: string[]) {
+  const stored: StoredMember[] = members.map(({ name, agenda }) => ({
+    name,
+    code: encodeAgenda(agenda, eventIds),
+  }));
+  try {
+    localStorage.setItem(GROUP_KEY, JSON.stringify(stored));
+  } catch {
+    // Storage disabled: the group only lasts for this visit
+  }
+}
@@ -0,0 +1,109 @@
+import { describe, expect, it } from 'vitest';
+import type { FestivalEvent } from './types';
+import { FESTIVAL, FESTIVAL_BRAND_TITLE } from './festival';
+import { getAllEvents } from './data';
+import {
+  generateICS,
+  generateICSFiles,
+  getEventIdFromUid,
+  getEventUid,
+  parseICS,
+} from './ics';
+
+const DTSTAMP = new Date('2026-01-01T12:00:00Z');
+
+const ARTIST_NAMES = [
+  'Comma, Semicolon; Band',
+  'Back\\slash\\Trio',
+  'Line\nBreak\r\nCrew',
+  `Los ${'Muy '.repeat(20)}Largos Con Tildes Ñandú Ópera`,
+];
+
+/** Real lineup events renamed to the awkward artist names above */
+function getTestEvents(): FestivalEvent[] {
+  const events = getAllEvents();
+  const days = [...new Set(events.map((e) => e.day))];
+  // Spread over every day so the per-day split has something to split
+  return ARTIST_NAMES.map((artist, i) => {
+    const day = days[i % days.length];
+    const event = events.filter((e) => e.day === day)[i];
+    return { ...event, artist };
+  });
+}
+
+function getOctets(line: string): number {
+  return new TextEncoder().encode(line).length;
+}
+
+describe('generateICS round trip', () => {
+  const events = getTestEvents();
+
+  for (const alarmMinutes of [null, 15]) {
+    describe(alarmMinutes === null ? 'without alarm' : 'with alarm', () => {
+      const ics = generateICS(events, { alarmMinutes, dtstamp: DTSTAMP });
+
+      it('parses back UID, SUMMARY, DTSTART and DTEND of every event', () => {
+        const parsed = parseICS(ics);
+        expect(parsed).toHaveLength(events.length);
+
+        for (const event of events) {
+          const match = parsed.find((p) => p.uid === getEventUid(event));
+          expect(match).toBeDefined();
+          expect(getEventIdFromUid(match!.uid!)).toBe(event.id);
+          // Any line break comes back as \n (TEXT escaping has only one)
+          expect(match!.summary).toBe(
+            `${event.artist.replace(/\r\n|\r/g, '\n')} - ${FESTIVAL_BRAND_TITLE}`
+          );
+          expect(match!.start?.getTime()).toBe(event.startAt.getTime());
+          expect(match!.end?.getTime()).toBe(event.endAt.getTime());
+        }
+      });
+
+      it('folds every physical line to at most 75 octets', () => {
+        const lines = ics.split('\r\n');
+        expect(lines.some((line) => line.startsWith(' '))).toBe(true);
+        for (const line of lines) {
+          expect(getOctets(line)).toBeLessThanOrEqual(75);
+        }
+      });
+
+      it(
+        alarmMinutes === null ? 'has no VALARM' : 'has one VALARM per event',
+        () => {
+          const alarms = ics.match(/^BEGIN:VALARM$/gm) ?? [];
+          expect(alarms).toHaveLength(
+            alarmMinutes === null ? 0 : events.length
+          );
+          if (alarmMinutes !== null) {
+            expect(ics).toContain(`TRIGGER:-PT${alarmMinutes}M`);
+          }
+        }
+      );
+    });
+  }
+});
+
+describe('generateICSFiles', () => {
+  const events = getTestEvents();
+  const schedules = FESTIVAL.days;
+
+  it('covers the same events in one file and in the per-day files', () => {
+    const [single] = generateICSFiles(events, schedules, 'single', {
+      dtstamp: DTSTAMP,
+    });
+    const perDay = generateICSFiles(events, schedules, 'day', {
+      dtstamp: DTSTAMP,
+    });
+
+    const uids = (content: string) =>
+      parseICS(content)
+        .map((p) => p.uid)
+        .sort();
+    const dayUids = perDay.flatMap((file) => uids(file.content)).sort();
+
+    expect(single.filename).toBe(`${FESTIVAL.slug}.ics`);
+    expect(perDay.length).toBeGreaterThan(1);
+    expect(dayUids).toEqual(uids(single.content));
+    expect(dayUids).toEqual(events.map(getEventUid).sort());
+  });
+});
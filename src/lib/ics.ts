@@ -0,0 +1,380 @@
+import type { FestivalEvent, ScheduleInfo } from './types';
+import { FESTIVAL, FESTIVAL_BRAND_TITLE } from './festival';
+import {
+  FESTIVAL_TIMEZONE,
+  getOffsetMinutes,
+  getTimeZoneLabel,
+  zonedTimeToDate,
+} from './time';
+import { getEstimateNote } from './data';
+import { getLineupVersion } from './changelog';
+
+// ─── iCalendar (RFC 5545) ──────────────────────────────────────────
+// Builds .ics files for the agenda and parses them back (for imports).
+// Times are written in the festival zone with a VTIMEZONE block, and
+// every event keeps the same UID across exports (`<id>@cosquin-rock-lineup`)
+// so re-importing a file updates the events instead of duplicating them.
+
+export const ICS_UID_DOMAIN = 'cosquin-rock-lineup';
+
+const PRODID = '-//Cosquin Rock Lineup//ES';
+const MAX_LINE_OCTETS = 75;
+const MINUTE_MS = 60 * 1000;
+
+export interface ICSOptions {
+  /** Adds a VALARM this many minutes before each show */
+  alarmMinutes?: number | null;
+  /** Shown as the calendar name by clients that support X-WR-CALNAME */
+  calendarName?: string;
+  /** DTSTAMP of every event; defaults to now */
+  dtstamp?: Date;
+}
+
+export interface ICSFile {
+  filename: string;
+  content: string;
+}
+
+export interface ParsedICSEvent {
+  uid: string | null;
+  summary: string;
+  location: string;
+  description: string;
+  start: Date | null;
+  end: Date | null;
+}
+
+export function getEventUid(event: { id: string }): string {
+  return `${event.id}@${ICS_UID_DOMAIN}`;
+}
+
+/** Event id of a UID created by this app, or null for foreign UIDs */
+export function getEventIdFromUid(uid: string): string | null {
+  const suffix = `@${ICS_UID_DOMAIN}`;
+  return uid.endsWith(suffix) ? uid.slice(0, -suffix.length) || null : null;
+}
+
+// ─── Writing ───────────────────────────────────────────────────────
+
+/** TEXT value escaping (RFC 5545 §3.3.11) */
+export function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r\n|\r|\n/g, '\\n');
+}
+
+/**
+ * Splits a content line into lines of at most 75 octets (UTF-8), each
+ * continuation starting with a space (RFC 5545 §3.1). Never splits a
+ * multi-byte character.
+ */
+export function foldLine(line: string): string {
+  const encoder = new TextEncoder();
+  const parts: string[] = [];
+  let current = '';
+  let currentOctets = 0;
+
+  for (const char of line) {
+    const octets = encoder.encode(char).length;
+    const limit = parts.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+    if (currentOctets + octets > limit) {
+      parts.push(current);
+      current = '';
+      currentOctets = 0;
+    }
+    current += char;
+    currentOctets += octets;
+  }
+  parts.push(current);
+
+  return parts.join('\r\n ');
+}
+
+function pad(n: number): string {
+  return n.toString().padStart(2, '0');
+}
+
+/** UTC DATE-TIME, e.g. 20260214T233000Z */
+function formatUTC(date: Date): string {
+  return date
+    .toISOString()
+    .replace(/[-:]/g, '')
+    .replace(/\.\d{3}/, '');
+}
+
+/** Local DATE-TIME in `timeZone`, e.g. 20260214T203000 (used with TZID) */
+function formatLocal(date: Date, timeZone: string): string {
+  const local = new Date(
+    date.getTime() + getOffsetMinutes(date, timeZone) * MINUTE_MS
+  );
+  return formatUTC(local).replace('Z', '');
+}
+
+/** UTC offset as in TZOFFSETFROM/TO, e.g. -0300 */
+function formatOffset(minutes: number): string {
+  const sign = minutes < 0 ? '-' : '+';
+  const abs = Math.abs(minutes);
+  return `${sign}${pad(Math.floor(abs / 60))}${pad(abs % 60)}`;
+}
+
+/**
+ * VTIMEZONE for the festival zone. Argentina has no daylight saving
+ * time, so a single STANDARD block with the offset in effect during
+ * the festival describes it fully.
+ */
+function buildVTimezone(timeZone: string, at: Date): string[] {
+  const offset = formatOffset(getOffsetMinutes(at, timeZone));
+  return [
+    'BEGIN:VTIMEZONE',
+    `TZID:${timeZone}`,
+    'BEGIN:STANDARD',
+    'DTSTART:19700101T000000',
+    `TZOFFSETFROM:${offset}`,
+    `TZOFFSETTO:${offset}`,
+    `TZNAME:${escapeText(getTimeZoneLabel(timeZone, at))}`,
+    'END:STANDARD',
+    'END:VTIMEZONE',
+  ];
+}
+
+function buildVEvent(
+  event: FestivalEvent,
+  dtstamp: Date,
+  sequence: number,
+  alarmMinutes: number | null
+): string[] {
+  const estimateNote = getEstimateNote(event);
+  const tz = `TZID=${FESTIVAL_TIMEZONE}`;
+  const lines = [
+    'BEGIN:VEVENT',
+    `UID:${getEventUid(event)}`,
+    `DTSTAMP:${formatUTC(dtstamp)}`,
+    `SEQUENCE:${sequence}`,
+    `DTSTART;${tz}:${formatLocal(event.startAt, FESTIVAL_TIMEZONE)}`,
+    `DTEND;${tz}:${formatLocal(event.endAt, FESTIVAL_TIMEZONE)}`,
+    `SUMMARY:${escapeText(`${event.artist} - ${FESTIVAL_BRAND_TITLE}`)}`,
+    `LOCATION:${escapeText(`Escenario ${event.stage}, ${FESTIVAL.brandName}, ${FESTIVAL.location}`)}`,
+    `DESCRIPTION:${escapeText(
+      `${event.artist} en el escenario ${event.stage} del ${FESTIVAL_BRAND_TITLE}.${estimateNote ? `\n${estimateNote}` : ''}`
+    )}`,
+  ];
+
+  if (alarmMinutes !== null) {
+    lines.push(
+      'BEGIN:VALARM',
+      'ACTION:DISPLAY',
+      `DESCRIPTION:${escapeText(`${event.artist} en ${alarmMinutes} min (${event.stage})`)}`,
+      `TRIGGER:-PT${alarmMinutes}M`,
+      'END:VALARM'
+    );
+  }
+
+  lines.push('END:VEVENT');
+  return lines;
+}
+
+/** A complete VCALENDAR with the given events, in chronological order */
+export function generateICS(
+  events: FestivalEvent[],
+  { alarmMinutes = null, calendarName, dtstamp = new Date() }: ICSOptions = {}
+): string {
+  const sorted = [...events].sort(
+    (a, b) => a.startAt.getTime() - b.startAt.getTime()
+  );
+  const sequence = getLineupVersion();
+
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODID}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(calendarName ?? FESTIVAL_BRAND_TITLE)}`,
+    `X-WR-TIMEZONE:${FESTIVAL_TIMEZONE}`,
+    ...buildVTimezone(FESTIVAL_TIMEZONE, sorted[0]?.startAt ?? dtstamp),
+    ...sorted.flatMap((event) =>
+      buildVEvent(event, dtstamp, sequence, alarmMinutes)
+    ),
+    'END:VCALENDAR',
+  ];
+
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
+
+/**
+ * The agenda as .ics files: one for everything, or one per festival day
+ * (days without selected shows are skipped).
+ */
+export function generateICSFiles(
+  events: FestivalEvent[],
+  schedules: ScheduleInfo[],
+  split: 'single' | 'day',
+  options: ICSOptions = {}
+): ICSFile[] {
+  if (split === 'single') {
+    return [
+      {
+        filename: `${FESTIVAL.slug}.ics`,
+        content: generateICS(events, options),
+      },
+    ];
+  }
+
+  return schedules.flatMap((schedule) => {
+    const dayEvents = events.filter((e) => e.day === schedule.day);
+    if (dayEvents.length === 0) return [];
+    return [
+      {
+        filename: `${FESTIVAL.slug}-dia-${schedule.day}.ics`,
+        content: generateICS(dayEvents, {
+          calendarName: `${FESTIVAL_BRAND_TITLE} — ${schedule.label}`,
+          ...options,
+        }),
+      },
+    ];
+  });
+}
+
+/**
+ * Apple Calendar has no "add event" web URL: it opens .ics files
+ * instead (Safari on iOS offers "Add All"). This is a data: URL for a
+ * link with a `download` attribute.
+ */
+export function generateAppleCalendarUrl(
+  events: FestivalEvent[],
+  options: ICSOptions = {}
+): string {
+  return `data:text/calendar;charset=utf-8,${encodeURIComponent(generateICS(events, options))}`;
+}
+
+// ─── Reading ───────────────────────────────────────────────────────
+
+interface ContentLine {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+}
+
+function unescapeText(value: string): string {
+  return value.replace(/\\([\\;,nN])/g, (_, char: string) =>
+    char === 'n' || char === 'N' ? '\n' : char
+  );
+}
+
+/** Unfolds and splits content lines into name, parameters and value */
+function parseContentLines(text: string): ContentLine[] {
+  return text
+    .replace(/\r\n[ \t]|\n[ \t]/g, '')
+    .split(/\r\n|\n|\r/)
+    .filter((line) => line.trim() !== '')
+    .map((line) => {
+      // The value starts at the first colon outside a quoted parameter
+      let inQuotes = false;
+      let colon = -1;
+      for (let i = 0; i < line.length; i++) {
+        if (line[i] === '"') inQuotes = !inQuotes;
+        if (line[i] === ':' && !inQuotes) {
+          colon = i;
+          break;
+        }
+      }
+      const head = colon === -1 ? line : line.slice(0, colon);
+      const [name, ...rawParams] = head.split(';');
+      const params: Record<string, string> = {};
+      for (const param of rawParams) {
+        const [key, ...rest] = param.split('=');
+        params[key.toUpperCase()] = rest.join('=').replace(/^"|"$/g, '');
+      }
+      return {
+        name: name.toUpperCase(),
+        params,
+        value: colon === -1 ? '' : line.slice(colon + 1),
+      };
+    });
+}
+
+/** DATE-TIME value; local times use their TZID (festival zone if none) */
+function parseDateTime(line: ContentLine): Date | null {
+  const match = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})?(Z)?)?$/.exec(
+    line.value.trim()
+  );
+  if (!match) return null;
+  const [, year, month, day, hour = '0', minute = '0', , utc] = match;
+  const fields = [year, month, day, hour, minute].map(Number) as [
+    number,
+    number,
+    number,
+    number,
+    number,
+  ];
+
+  if (utc) {
+    return zonedTimeToDate(...fields, 'UTC');
+  }
+  try {
+    return zonedTimeToDate(...fields, line.params.TZID ?? FESTIVAL_TIMEZONE);
+  } catch {
+    // Unknown TZID: read it as festival time
+    return zonedTimeToDate(...fields, FESTIVAL_TIMEZONE);
+  }
+}
+
+/** VEVENTs of an .ics file (any producer, not only this app) */
+export function parseICS(text: string): ParsedICSEvent[] {
+  const events: ParsedICSEvent[] = [];
+  let current: ParsedICSEvent | null = null;
+  let depth = 0; // components nested inside the VEVENT, e.g. VALARM
+
+  for (const line of parseContentLines(text)) {
+    if (line.name === 'BEGIN') {
+      if (current) {
+        depth++;
+      } else if (line.value.toUpperCase() === 'VEVENT') {
+        current = {
+          uid: null,
+          summary: '',
+          location: '',
+          description: '',
+          start: null,
+          end: null,
+        };
+      }
+      continue;
+    }
+    if (line.name === 'END' && current) {
+      if (depth > 0) {
+        depth--;
+      } else {
+        events.push(current);
+        current = null;
+      }
+      continue;
+    }
+    if (!current || depth > 0) continue;
+
+    switch (line.name) {
+      case 'UID':
+        current.uid = line.value.trim();
+        break;
+      case 'SUMMARY':
+        current.summary = unescapeText(line.value);
+        break;
+      case 'LOCATION':
+        current.location = unescapeText(line.value);
+        break;
+      case 'DESCRIPTION':
+        current.description = unescapeText(line.value);
+        break;
+      case 'DTSTART':
+        current.start = parseDateTime(line);
+        break;
+      case 'DTEND':
+        current.end = parseDateTime(line);
+        break;
+    }
+  }
+
+  return events;
+}
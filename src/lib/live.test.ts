@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest';
+import { getDaySchedules } from './data';
+import { zonedTimeToDate } from './time';
+import { getCurrentDay, getLiveSchedule } from './live';
+
+const MINUTE_MS = 60 * 1000;
+
+/** Instant of a wall-clock time in the festival's zone */
+function at(date: string, hour: number, minute: number): Date {
+  const [year, month, day] = date.split('-').map(Number);
+  return zonedTimeToDate(year, month, day, hour, minute);
+}
+
+describe('getCurrentDay', () => {
+  const schedules = getDaySchedules();
+  const [first, second] = schedules;
+
+  const lastEnd = (day: number) =>
+    Math.max(
+      ...schedules
+        .find((s) => s.day === day)!
+        .stages.flatMap((st) => st.events.map((e) => e.endAt.getTime()))
+    );
+  const dayAt = (now: Date) => getCurrentDay(schedules, now)?.day ?? null;
+
+  it('opens on the day of the calendar date before the gates open', () => {
+    expect(dayAt(at(first.date, 13, 59))).toBe(first.day);
+    expect(dayAt(at(first.date, 14, 0))).toBe(first.day);
+    expect(dayAt(at(second.date, 13, 59))).toBe(second.day);
+    expect(dayAt(at(second.date, 14, 0))).toBe(second.day);
+  });
+
+  it('stays on a night until its last show ends', () => {
+    const end = lastEnd(first.day);
+    expect(dayAt(new Date(end - MINUTE_MS))).toBe(first.day);
+    expect(dayAt(new Date(end))).toBe(second.day);
+    expect(dayAt(new Date(end + MINUTE_MS))).toBe(second.day);
+  });
+
+  it('has no day once the last night is over', () => {
+    const end = lastEnd(second.day);
+    expect(dayAt(new Date(end - MINUTE_MS))).toBe(second.day);
+    expect(dayAt(new Date(end))).toBeNull();
+    expect(dayAt(new Date(end + MINUTE_MS))).toBeNull();
+  });
+
+  it('has no day outside the festival', () => {
+    expect(dayAt(at('2026-02-13', 23, 0))).toBeNull();
+    expect(dayAt(at('2026-03-01', 20, 0))).toBeNull();
+  });
+});
+
+describe('getLiveSchedule', () => {
+  const schedules = getDaySchedules();
+  const [first] = schedules;
+
+  it('is only live from the gates opening until the last show ends', () => {
+    expect(getLiveSchedule(schedules, at(first.date, 13, 59))).toBeNull();
+    expect(getLiveSchedule(schedules, at(first.date, 14, 0))?.day).toBe(
+      first.day
+    );
+  });
+});
@@ -0,0 +1,101 @@
+import type { FestivalEvent, StageColumn, StageNow } from './types';
+import { getFestivalDate, getFestivalNightDate, toGridMinutes } from './time';
+
+// ─── Live mode ("now playing") ─────────────────────────────────────
+// Everything takes `now` as an argument so the clock can be simulated
+// with `?now=` (see ./url-state.ts).
+
+const MINUTE_MS = 60 * 1000;
+
+/** Festival day whose night `now` falls on, if any */
+export function getLiveDay<T extends { day: number; date: string }>(
+  schedules: T[],
+  now: Date
+): T | null {
+  const nightDate = getFestivalNightDate(now);
+  return schedules.find((s) => s.date === nightDate) ?? null;
+}
+
+/** Just enough of a schedule to know when its last show ends */
+interface TimedSchedule {
+  day: number;
+  date: string;
+  stages: { events: { endAt: Date }[] }[];
+}
+
+/** Festival day whose night `now` falls on, while its last show hasn't ended */
+export function getLiveSchedule<T extends TimedSchedule>(
+  schedules: T[],
+  now: Date
+): T | null {
+  const schedule = getLiveDay(schedules, now);
+  if (!schedule) return null;
+  const lastEnd = Math.max(
+    ...schedule.stages.flatMap((st) => st.events.map((e) => e.endAt.getTime()))
+  );
+  return now.getTime() < lastEnd ? schedule : null;
+}
+
+/**
+ * Festival day to open on at `now`: tonight's while it's still playing
+ * (past midnight included), otherwise the one on today's calendar date.
+ * The night alone would keep the previous day until the gates open.
+ */
+export function getCurrentDay<T extends TimedSchedule>(
+  schedules: T[],
+  now: Date
+): T | null {
+  const today = getFestivalDate(now);
+  return (
+    getLiveSchedule(schedules, now) ??
+    schedules.find((s) => s.date === today) ??
+    null
+  );
+}
+
+/**
+ * Position of `now` on the grid of the given night, or null when `now`
+ * is on another night. Same units as `FestivalEvent.startMinutes`.
+ */
+export function getNowGridMinute(nightDate: string, now: Date): number | null {
+  return getFestivalNightDate(now) === nightDate ? toGridMinutes(now) : null;
+}
+
+export function isPlaying(event: FestivalEvent, now: Date): boolean {
+  return event.startAt <= now && now < event.endAt;
+}
+
+/** Current and next set of every stage (stages keep their grid order) */
+export function getStagesNow(stages: StageColumn[], now: Date): StageNow[] {
+  return stages.map((stage) => ({
+    stage: stage.name,
+    current: stage.events.find((e) => isPlaying(e, now)) ?? null,
+    next: stage.events.find((e) => e.startAt > now) ?? null,
+  }));
+}
+
+/** Shows that haven't started yet, soonest first */
+export function getUpcoming(
+  events: FestivalEvent[],
+  now: Date,
+  limit = 3
+): FestivalEvent[] {
+  return events
+    .filter((e) => e.startAt > now)
+    .sort((a, b) => a.startAt.getTime() - b.startAt.getTime())
+    .slice(0, limit);
+}
+
+/** Whole minutes from `now` until `date` (negative when already past) */
+export function minutesUntil(date: Date, now: Date): number {
+  return Math.ceil((date.getTime() - now.getTime()) / MINUTE_MS);
+}
+
+/** e.g. 'en 5 min', 'en 1 h 20 min' */
+export function formatTimeUntil(date: Date, now: Date): string {
+  const minutes = Math.max(0, minutesUntil(date, now));
+  if (minutes < 60) return `en ${minutes} min`;
+  const hours = Math.floor(minutes / 60);
+  const rest = minutes % 60;
+  return rest === 0 ? `en ${hours} h` : `en ${hours} h ${rest} min`;
+}
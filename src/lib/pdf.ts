@@ -0,0 +1,86 @@
+// ─── Minimal PDF writer ────────────────────────────────────────────
+// Builds a PDF where every page is one full-bleed JPEG, which is all
+// the pocket agenda needs: the pages are drawn on a canvas and the
+// JPEG bytes go in as-is (DCTDecode), so there's no encoder, font
+// handling or dependency involved.
+
+export interface PDFImagePage {
+  /** JPEG file bytes */
+  jpeg: Uint8Array<ArrayBuffer>;
+  /** Image size in pixels */
+  width: number;
+  height: number;
+}
+
+/** Millimetres to PDF points (1/72 in) */
+export function mmToPoints(mm: number): number {
+  return (mm / 25.4) * 72;
+}
+
+/** PDF with one page per image; the page size is given in points */
+export function createImagePDF(
+  pages: PDFImagePage[],
+  pageWidth: number,
+  pageHeight: number
+): Blob {
+  const encoder = new TextEncoder();
+  const chunks: BlobPart[] = [];
+  const offsets: number[] = [];
+  let length = 0;
+
+  const write = (data: string | Uint8Array<ArrayBuffer>) => {
+    const bytes = typeof data === 'string' ? encoder.encode(data) : data;
+    chunks.push(bytes);
+    length += bytes.length;
+  };
+  const writeObject = (id: number, body: string) => {
+    offsets[id] = length;
+    write(`${id} 0 obj\n${body}\nendobj\n`);
+  };
+
+  // Objects: 1 catalog, 2 page tree, then page, content and image per page
+  const pageId = (i: number) => 3 + i * 3;
+  const objectCount = 2 + pages.length * 3;
+  const width = pageWidth.toFixed(2);
+  const height = pageHeight.toFixed(2);
+
+  // The binary comment marks the file as binary for transfer tools
+  write('%PDF-1.4\n%âãÏÓ\n');
+  writeObject(1, '<< /Type /Catalog /Pages 2 0 R >>');
+  writeObject(
+    2,
+    `<< /Type /Pages /Kids [${pages.map((_, i) => `${pageId(i)} 0 R`).join(' ')}] /Count ${pages.length} >>`
+  );
+
+  pages.forEach((page, i) => {
+    const id = pageId(i);
+    const content = `q ${width} 0 0 ${height} 0 0 cm /Im0 Do Q`;
+    writeObject(
+      id,
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${width} ${height}] /Resources << /XObject << /Im0 ${id + 2} 0 R >> >> /Contents ${id + 1} 0 R >>`
+    );
+    writeObject(
+      id + 1,
+      `<< /Length ${content.length} >>\nstream\n${content}\nendstream`
+    );
+
+    offsets[id + 2] = length;
+    write(
+      `${id + 2} 0 obj\n<< /Type /XObject /Subtype /Image /Width ${page.width} /Height ${page.height} /ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /DCTDecode /Length ${page.jpeg.length} >>\nstream\n`
+    );
+    write(page.jpeg);
+    write('\nendstream\nendobj\n');
+  });
+
+  const xrefOffset = length;
+  const entries = Array.from(
+    { length: objectCount },
+    (_, i) => `${String(offsets[i + 1]).padStart(10, '0')} 00000 n \n`
+  );
+  write(
+    `xref\n0 ${objectCount + 1}\n0000000000 65535 f \n${entries.join('')}` +
+      `trailer\n<< /Size ${objectCount + 1} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`
+  );
+
+  return new Blob(chunks, { type: 'application/pdf' });
+}
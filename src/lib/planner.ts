@@ -0,0 +1,86 @@
+import type {
+  Agenda,
+  AgendaTier,
+  DroppedShow,
+  FestivalEvent,
+  Itinerary,
+} from './types';
+import { getConflict } from './conflicts';
+import { DEFAULT_TIER } from './constants';
+
+// ─── Best itinerary planner ────────────────────────────────────────
+// Picks the set of shows with the highest total tier weight such that no
+// two overlap and there is always time to walk between stages. Two
+// shows are compatible when the later one starts after the earlier one
+// ends plus the walk, so the wishlist forms a DAG ordered by start time
+// and the best itinerary is its heaviest path.
+
+/**
+ * A single imperdible outweighs any two lower-tier shows that could
+ * replace it.
+ */
+const TIER_WEIGHTS: Record<AgendaTier, number> = {
+  must: 10,
+  want: 4,
+  maybe: 1,
+};
+
+/** Favours more minutes of music when tiers tie */
+const MINUTES_TIEBREAK = 1 / 10000;
+
+function getWeight(event: FestivalEvent, tier: AgendaTier): number {
+  return TIER_WEIGHTS[tier] + event.duration * MINUTES_TIEBREAK;
+}
+
+export function planItinerary(
+  wishlist: FestivalEvent[],
+  tiers: Agenda
+): Itinerary {
+  const sorted = [...wishlist].sort(
+    (a, b) =>
+      a.startAt.getTime() - b.startAt.getTime() ||
+      a.endAt.getTime() - b.endAt.getTime()
+  );
+  const tierOf = (e: FestivalEvent) => tiers.get(e.id) ?? DEFAULT_TIER;
+
+  // best[i]: heaviest itinerary that ends with sorted[i]
+  const best: number[] = [];
+  const previous: number[] = [];
+
+  for (let i = 0; i < sorted.length; i++) {
+    best[i] = getWeight(sorted[i], tierOf(sorted[i]));
+    previous[i] = -1;
+    for (let j = 0; j < i; j++) {
+      if (getConflict(sorted[j], sorted[i])) continue;
+      const candidate = best[j] + getWeight(sorted[i], tierOf(sorted[i]));
+      if (candidate > best[i]) {
+        best[i] = candidate;
+        previous[i] = j;
+      }
+    }
+  }
+
+  let last = -1;
+  for (let i = 0; i < sorted.length; i++) {
+    if (last === -1 || best[i] > best[last]) last = i;
+  }
+
+  const keptIndexes = new Set<number>();
+  for (let i = last; i !== -1; i = previous[i]) keptIndexes.add(i);
+
+  const kept = sorted.filter((_, i) => keptIndexes.has(i));
+  const dropped: DroppedShow[] = sorted
+    .filter((_, i) => !keptIndexes.has(i))
+    .map((event) => ({
+      event,
+      conflicts: kept
+        .map((k) =>
+          k.startAt.getTime() <= event.startAt.getTime()
+            ? getConflict(k, event)
+            : getConflict(event, k)
+        )
+        .filter((c) => c !== null),
+    }));
+
+  return { kept, dropped };
+}
@@ -0,0 +1,232 @@
+import { FESTIVAL_TITLE, SITE_HOST } from './festival';
+import {
+  FONT_BODY,
+  drawText,
+  getStageImageColor,
+  renderCanvas,
+} from './agenda-image-draw';
+import type { Canvas2D } from './agenda-image-draw';
+import {
+  POCKET_PAGE_HEIGHT_MM,
+  POCKET_PAGE_WIDTH_MM,
+  POCKET_PANEL_HEIGHT_MM,
+  POCKET_PANEL_LINES,
+  POCKET_PANEL_WIDTH_MM,
+  getPocketLegendNotes,
+  getPocketPages,
+  getPocketPanels,
+} from './pocket-agenda';
+import type { PocketAgendaInput, PocketPanel } from './pocket-agenda';
+import { createImagePDF, mmToPoints } from './pdf';
+
+// ─── Pocket agenda PDF ─────────────────────────────────────────────
+// Draws each A4 sheet of the pocket agenda on a canvas (in millimetres,
+// scaled to PDF_DPI) and packs the sheets into a PDF, all in the
+// browser. Sizes mirror src/styles/print.css so the PDF and the
+// printed page look the same.
+
+const PDF_DPI = 150;
+const PX_PER_MM = PDF_DPI / 25.4;
+const PAGE_WIDTH_PX = Math.round(POCKET_PAGE_WIDTH_MM * PX_PER_MM);
+const PAGE_HEIGHT_PX = Math.round(POCKET_PAGE_HEIGHT_MM * PX_PER_MM);
+
+const PADDING = 7;
+const HEADER_HEIGHT = 16;
+const LEGEND_HEIGHT = 10;
+const LINE_HEIGHT =
+  (POCKET_PANEL_HEIGHT_MM - PADDING * 2 - HEADER_HEIGHT - LEGEND_HEIGHT) /
+  POCKET_PANEL_LINES;
+const TIME_WIDTH = 22;
+
+const INK = {
+  text: '#111111',
+  muted: '#555555',
+  dim: '#888888',
+  rule: '#cccccc',
+  clash: '#b91c1c',
+};
+
+function drawStageDot(ctx: Canvas2D, stage: string, x: number, y: number) {
+  ctx.beginPath();
+  ctx.arc(x, y, 1, 0, Math.PI * 2);
+  ctx.fillStyle = getStageImageColor(stage).border;
+  ctx.fill();
+}
+
+function drawPanel(
+  ctx: Canvas2D,
+  panel: PocketPanel,
+  left: number,
+  top: number
+) {
+  const x = left + PADDING;
+  const width = POCKET_PANEL_WIDTH_MM - PADDING * 2;
+
+  drawText(
+    ctx,
+    FESTIVAL_TITLE,
+    x,
+    top + PADDING,
+    `2.6px ${FONT_BODY}`,
+    INK.dim,
+    width / 2
+  );
+  drawText(
+    ctx,
+    SITE_HOST,
+    x + width,
+    top + PADDING,
+    `2.6px ${FONT_BODY}`,
+    INK.dim,
+    width / 2,
+    'right'
+  );
+  drawText(
+    ctx,
+    `${panel.title}${panel.continued ? ' (cont.)' : ''}`,
+    x,
+    top + PADDING + 4.5,
+    `700 5px ${FONT_BODY}`,
+    INK.text,
+    width
+  );
+  ctx.fillStyle = INK.text;
+  ctx.fillRect(x, top + PADDING + HEADER_HEIGHT - 2.5, width, 0.4);
+
+  let y = top + PADDING + HEADER_HEIGHT;
+  for (const row of panel.rows) {
+    drawText(
+      ctx,
+      `${row.start}–${row.end}`,
+      x,
+      y + 0.4,
+      `700 2.9px ${FONT_BODY}`,
+      INK.text,
+      TIME_WIDTH - 1
+    );
+    drawText(
+      ctx,
+      `${row.tier === 'must' ? '★ ' : ''}${row.event.artist}`,
+      x + TIME_WIDTH,
+      y + 0.2,
+      `700 3.2px ${FONT_BODY}`,
+      INK.text,
+      width - TIME_WIDTH
+    );
+    y += LINE_HEIGHT;
+
+    drawStageDot(ctx, row.event.stage, x + TIME_WIDTH + 1, y + 1.5);
+    drawText(
+      ctx,
+      `${row.event.stage}${row.tier === 'maybe' ? ' · si da' : ''}`,
+      x + TIME_WIDTH + 3,
+      y + 0.2,
+      `2.7px ${FONT_BODY}`,
+      INK.muted,
+      width - TIME_WIDTH - 3
+    );
+    y += LINE_HEIGHT;
+
+    for (const clash of row.clashes) {
+      drawText(
+        ctx,
+        `⚠ ${clash}`,
+        x + TIME_WIDTH,
+        y + 0.2,
+        `2.6px ${FONT_BODY}`,
+        INK.clash,
+        width - TIME_WIDTH
+      );
+      y += LINE_HEIGHT;
+    }
+  }
+
+  // Legend: stages in this panel, then the symbols in use
+  const legendTop =
+    top + POCKET_PANEL_HEIGHT_MM - PADDING - LEGEND_HEIGHT + 1.5;
+  ctx.fillStyle = INK.rule;
+  ctx.fillRect(x, legendTop - 1.5, width, 0.25);
+  let legendX = x;
+  for (const stage of panel.stages) {
+    ctx.font = `2.5px ${FONT_BODY}`;
+    const labelWidth = ctx.measureText(stage).width;
+    if (legendX + labelWidth + 3 > x + width) break;
+    drawStageDot(ctx, stage, legendX + 1, legendTop + 1.3);
+    drawText(
+      ctx,
+      stage,
+      legendX + 2.6,
+      legendTop,
+      `2.5px ${FONT_BODY}`,
+      INK.muted,
+      labelWidth
+    );
+    legendX += labelWidth + 5;
+  }
+
+  drawText(
+    ctx,
+    getPocketLegendNotes(panel).join(' · '),
+    x,
+    legendTop + 4,
+    `2.5px ${FONT_BODY}`,
+    INK.dim,
+    width
+  );
+}
+
+function drawPage(ctx: Canvas2D, panels: PocketPanel[]) {
+  ctx.fillStyle = '#ffffff';
+  ctx.fillRect(0, 0, POCKET_PAGE_WIDTH_MM, POCKET_PAGE_HEIGHT_MM);
+
+  // Cut / fold guides between the panels
+  ctx.strokeStyle = INK.rule;
+  ctx.lineWidth = 0.2;
+  ctx.setLineDash([2, 1.5]);
+  ctx.beginPath();
+  ctx.moveTo(POCKET_PANEL_WIDTH_MM, 0);
+  ctx.lineTo(POCKET_PANEL_WIDTH_MM, POCKET_PAGE_HEIGHT_MM);
+  ctx.moveTo(0, POCKET_PANEL_HEIGHT_MM);
+  ctx.lineTo(POCKET_PAGE_WIDTH_MM, POCKET_PANEL_HEIGHT_MM);
+  ctx.stroke();
+  ctx.setLineDash([]);
+
+  panels.forEach((panel, i) => {
+    drawPanel(
+      ctx,
+      panel,
+      (i % 2) * POCKET_PANEL_WIDTH_MM,
+      Math.floor(i / 2) * POCKET_PANEL_HEIGHT_MM
+    );
+  });
+}
+
+/** The pocket agenda as an A4 PDF, one sheet per four panels */
+export async function renderPocketAgendaPDF(
+  input: PocketAgendaInput
+): Promise<Blob> {
+  const pages = getPocketPages(getPocketPanels(input));
+  const images = [];
+  for (const panels of pages) {
+    const jpeg = await renderCanvas(
+      PAGE_WIDTH_PX,
+      PAGE_HEIGHT_PX,
+      (ctx) => {
+        ctx.scale(PX_PER_MM, PX_PER_MM);
+        drawPage(ctx, panels);
+      },
+      'image/jpeg',
+      0.92
+    );
+    images.push({
+      jpeg: new Uint8Array(await jpeg.arrayBuffer()),
+      width: PAGE_WIDTH_PX,
+      height: PAGE_HEIGHT_PX,
+    });
+  }
+  return createImagePDF(
+    images,
+    mmToPoints(POCKET_PAGE_WIDTH_MM),
+    mmToPoints(POCKET_PAGE_HEIGHT_MM)
+  );
+}
@@ -0,0 +1,154 @@
+import type {
+  Agenda,
+  AgendaTier,
+  Conflict,
+  FestivalEvent,
+  ScheduleInfo,
+} from './types';
+import { FESTIVAL } from './festival';
+import { getEventTimeLabels, hasEstimatedTimes } from './data';
+import { detectConflicts, groupConflictsByEvent } from './conflicts';
+
+// ─── Pocket agenda ─────────────────────────────────────────────────
+// The selected shows laid out for paper: one A6 panel per day (four
+// per A4 sheet, cut or folded), with times, stages, clash notes and a
+// stage legend. Both the print view (components/PocketAgenda.tsx) and
+// the PDF (./pocket-agenda-pdf.ts) render these panels, so they share
+// the pagination below and the millimetre sizes.
+
+export interface PocketAgendaInput {
+  events: FestivalEvent[];
+  tiers?: Agenda;
+  schedules: ScheduleInfo[];
+  timeZone: string;
+}
+
+export interface PocketRow {
+  event: FestivalEvent;
+  start: string;
+  end: string;
+  tier?: AgendaTier;
+  /** One short line per clash with another selected show */
+  clashes: string[];
+}
+
+export interface PocketPanel {
+  day: number;
+  /** e.g. 'Día 1 — Sábado 14' */
+  title: string;
+  /** True for the panels a long day spills over into */
+  continued: boolean;
+  rows: PocketRow[];
+  /** Stages used in this panel, in stage order */
+  stages: string[];
+}
+
+/** A4 portrait split in 2 × 2 A6 panels */
+export const POCKET_PAGE_WIDTH_MM = 210;
+export const POCKET_PAGE_HEIGHT_MM = 297;
+export const POCKET_PANEL_WIDTH_MM = POCKET_PAGE_WIDTH_MM / 2;
+export const POCKET_PANEL_HEIGHT_MM = POCKET_PAGE_HEIGHT_MM / 2;
+export const POCKET_PANELS_PER_PAGE = 4;
+
+/**
+ * Text lines that fit in a panel below its header and above the
+ * legend; a show takes two lines plus one per clash note.
+ */
+export const POCKET_PANEL_LINES = 28;
+
+function getRowLines(row: PocketRow): number {
+  return 2 + row.clashes.length;
+}
+
+function describeClash(conflict: Conflict, eventId: string): string {
+  const other =
+    conflict.first.id === eventId ? conflict.second : conflict.first;
+  const withText = `${other.artist} (${other.stage})`;
+  if (conflict.kind === 'overlap') return `Se superpone con ${withText}`;
+  const direction = conflict.first.id === eventId ? 'hasta' : 'desde';
+  return `${conflict.gapMinutes} min ${direction} ${withText}, caminando ~${conflict.walkMinutes}`;
+}
+
+/** At most two lines, so one clash-heavy show can't take over a panel */
+function getClashNotes(conflicts: Conflict[], eventId: string): string[] {
+  const notes = conflicts.map((c) => describeClash(c, eventId));
+  if (notes.length <= 2) return notes;
+  return [notes[0], `y ${notes.length - 1} choques más`];
+}
+
+function sortStages(stages: Iterable<string>): string[] {
+  const stageIndex = (stage: string) => {
+    const index = FESTIVAL.stageOrder.indexOf(stage);
+    return index === -1 ? FESTIVAL.stageOrder.length : index;
+  };
+  return [...new Set(stages)].sort(
+    (a, b) => stageIndex(a) - stageIndex(b) || a.localeCompare(b)
+  );
+}
+
+/** Panels in print order: each day in start order, split when long */
+export function getPocketPanels(input: PocketAgendaInput): PocketPanel[] {
+  const conflictsByEvent = groupConflictsByEvent(detectConflicts(input.events));
+  const days = [...new Set(input.events.map((e) => e.day))].sort(
+    (a, b) => a - b
+  );
+  const panels: PocketPanel[] = [];
+
+  for (const day of days) {
+    const info = input.schedules.find((s) => s.day === day);
+    const title = `Día ${day}${info ? ` — ${info.label}` : ''}`;
+    const rows: PocketRow[] = input.events
+      .filter((e) => e.day === day)
+      .sort((a, b) => a.startAt.getTime() - b.startAt.getTime())
+      .map((event) => ({
+        event,
+        ...getEventTimeLabels(event, input.timeZone),
+        tier: input.tiers?.get(event.id),
+        clashes: getClashNotes(conflictsByEvent.get(event.id) ?? [], event.id),
+      }));
+
+    let current: PocketRow[] = [];
+    let lines = 0;
+    const flush = () => {
+      panels.push({
+        day,
+        title,
+        continued: panels.some((p) => p.day === day),
+        rows: current,
+        stages: sortStages(current.map((r) => r.event.stage)),
+      });
+      current = [];
+      lines = 0;
+    };
+    for (const row of rows) {
+      if (current.length > 0 && lines + getRowLines(row) > POCKET_PANEL_LINES) {
+        flush();
+      }
+      current.push(row);
+      lines += getRowLines(row);
+    }
+    if (current.length > 0) flush();
+  }
+
+  return panels;
+}
+
+/** Symbols used in the panel, for the line under the stage legend */
+export function getPocketLegendNotes(panel: PocketPanel): string[] {
+  const notes: string[] = [];
+  if (panel.rows.some((r) => r.tier === 'must')) notes.push('★ Imperdible');
+  if (panel.rows.some((r) => hasEstimatedTimes(r.event))) {
+    notes.push('~ Horario estimado');
+  }
+  if (panel.rows.some((r) => r.clashes.length > 0)) notes.push('⚠ Choque');
+  return notes;
+}
+
+/** Panels grouped by printed sheet */
+export function getPocketPages(panels: PocketPanel[]): PocketPanel[][] {
+  const pages: PocketPanel[][] = [];
+  for (let i = 0; i < panels.length; i += POCKET_PANELS_PER_PAGE) {
+    pages.push(panels.slice(i, i + POCKET_PANELS_PER_PAGE));
+  }
+  return pages;
+}
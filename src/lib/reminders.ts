@@ -0,0 +1,197 @@
+import type {
+  Agenda,
+  FestivalEvent,
+  Reminder,
+  ReminderSettings,
+} from './types';
+import { formatClock } from './time';
+import { writeAgendaParams } from './url-state';
+
+// ─── Show reminders ────────────────────────────────────────────────
+// Notifications a few minutes before each selected set. Where the
+// browser supports Notification Triggers they are scheduled up front
+// and fire even offline with the app closed. Elsewhere the list is
+// handed to the service worker (public/sw-reminders.js), which shows
+// the due ones whenever it gets to run: on periodic background sync,
+// when the app is reopened and every minute while it is open.
+
+export const REMINDER_LEAD_OPTIONS = [5, 10, 15, 30];
+
+const SETTINGS_KEY = 'reminder-settings';
+export const DEFAULT_REMINDER_SETTINGS: ReminderSettings = {
+  enabled: false,
+  leadMinutes: 15,
+};
+const MINUTE_MS = 60 * 1000;
+const TAG_PREFIX = 'show-reminder-';
+const PERIODIC_SYNC_TAG = 'check-reminders';
+
+/** Notification Triggers (Chromium only, not in lib.dom) */
+type TimestampTriggerConstructor = new (timestamp: number) => unknown;
+
+export type NotificationSupport = 'unsupported' | NotificationPermission;
+
+export function loadReminderSettings(): ReminderSettings {
+  try {
+    const stored = JSON.parse(localStorage.getItem(SETTINGS_KEY) ?? '{}');
+    return {
+      enabled: stored.enabled === true,
+      leadMinutes: REMINDER_LEAD_OPTIONS.includes(stored.leadMinutes)
+        ? stored.leadMinutes
+        : DEFAULT_REMINDER_SETTINGS.leadMinutes,
+    };
+  } catch {
+    return DEFAULT_REMINDER_SETTINGS;
+  }
+}
+
+export function saveReminderSettings(settings: ReminderSettings) {
+  try {
+    localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+  } catch {
+    // Storage disabled: the settings only last for this visit
+  }
+}
+
+export function getNotificationSupport(): NotificationSupport {
+  if (typeof Notification === 'undefined' || !('serviceWorker' in navigator)) {
+    return 'unsupported';
+  }
+  return Notification.permission;
+}
+
+export async function requestNotificationPermission(): Promise<NotificationSupport> {
+  if (getNotificationSupport() === 'unsupported') return 'unsupported';
+  return Notification.requestPermission();
+}
+
+function getTimestampTrigger(): TimestampTriggerConstructor | undefined {
+  return (window as { TimestampTrigger?: TimestampTriggerConstructor })
+    .TimestampTrigger;
+}
+
+export function supportsNotificationTriggers(): boolean {
+  return (
+    typeof Notification !== 'undefined' &&
+    'showTrigger' in Notification.prototype &&
+    getTimestampTrigger() !== undefined
+  );
+}
+
+/** App URL that opens the agenda and jumps to the show (`show` param) */
+export function getReminderUrl(
+  eventId: string,
+  agenda: Agenda,
+  eventIds: string[]
+): string {
+  const url = new URL('/', window.location.origin);
+  writeAgendaParams(url.searchParams, agenda, eventIds);
+  url.searchParams.set('show', eventId);
+  return url.toString();
+}
+
+/** Reminders for the selected shows that haven't reached their lead time */
+export function buildReminders(
+  events: FestivalEvent[],
+  agenda: Agenda,
+  eventIds: string[],
+  leadMinutes: number,
+  now: Date,
+  timeZone: string
+): Reminder[] {
+  return events
+    .filter((e) => agenda.has(e.id))
+    .map((event) => ({
+      tag: `${TAG_PREFIX}${event.id}`,
+      eventId: event.id,
+      title: `${event.artist} en ${leadMinutes} min`,
+      body: `Escenario ${event.stage} · ${formatClock(event.startAt, timeZone)}`,
+      at: event.startAt.getTime() - leadMinutes * MINUTE_MS,
+      startsAt: event.startAt.getTime(),
+      url: getReminderUrl(event.id, agenda, eventIds),
+    }))
+    .filter((r) => r.at > now.getTime());
+}
+
+async function getRegistration(): Promise<ServiceWorkerRegistration> {
+  const existing = await navigator.serviceWorker.getRegistration('/');
+  if (!existing) {
+    await navigator.serviceWorker.register('/sw.js', { scope: '/' });
+  }
+  return navigator.serviceWorker.ready;
+}
+
+/** Drops reminders scheduled with Notification Triggers that haven't fired */
+async function clearTriggeredReminders(
+  registration: ServiceWorkerRegistration
+) {
+  const pending = await registration.getNotifications({
+    includeTriggered: true,
+  } as GetNotificationOptions);
+  for (const notification of pending) {
+    if (notification.tag.startsWith(TAG_PREFIX)) notification.close();
+  }
+}
+
+/**
+ * Replaces every scheduled reminder with `reminders` (an empty list
+ * turns them off). Safe to call on each agenda change.
+ */
+export async function scheduleReminders(reminders: Reminder[]) {
+  if (getNotificationSupport() === 'unsupported') return;
+  // Turning reminders off shouldn't install the service worker
+  const registration =
+    reminders.length > 0
+      ? await getRegistration()
+      : await navigator.serviceWorker.getRegistration('/');
+  if (!registration) return;
+  const TimestampTrigger = getTimestampTrigger();
+
+  if (supportsNotificationTriggers() && TimestampTrigger) {
+    await clearTriggeredReminders(registration);
+    for (const reminder of reminders) {
+      await registration.showNotification(reminder.title, {
+        body: reminder.body,
+        tag: reminder.tag,
+        icon: '/web-app-manifest-192x192.png',
+        data: { url: reminder.url },
+        showTrigger: new TimestampTrigger(reminder.at),
+      } as NotificationOptions);
+    }
+    // The service worker keeps nothing, so reminders don't show twice
+    registration.active?.postMessage({ type: 'SET_REMINDERS', reminders: [] });
+    return;
+  }
+
+  registration.active?.postMessage({ type: 'SET_REMINDERS', reminders });
+  if (reminders.length > 0) await registerPeriodicCheck(registration);
+}
+
+/** Asks the service worker to show the reminders that are due */
+export async function checkReminders() {
+  if (getNotificationSupport() !== 'granted') return;
+  const registration = await navigator.serviceWorker.getRegistration('/');
+  registration?.active?.postMessage({ type: 'CHECK_REMINDERS' });
+}
+
+/** Background checks with the app closed (installed PWAs on Chromium) */
+async function registerPeriodicCheck(registration: ServiceWorkerRegistration) {
+  const periodicSync = (
+    registration as ServiceWorkerRegistration & {
+      periodicSync?: {
+        register: (
+          tag: string,
+          options: { minInterval: number }
+        ) => Promise<void>;
+      };
+    }
+  ).periodicSync;
+  if (!periodicSync) return;
+  try {
+    await periodicSync.register(PERIODIC_SYNC_TAG, {
+      minInterval: 15 * MINUTE_MS,
+    });
+  } catch {
+    // Not installed or not allowed: the checks while the app is open remain
+  }
+}
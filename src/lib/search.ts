@@ -0,0 +1,106 @@
+import type { FestivalEvent } from './types';
+import { foldText } from './artists';
+
+// ─── Artist search ─────────────────────────────────────────────────
+// Accent- and case-insensitive ("fantasmagoria" finds FANTASMAGORÍA).
+// Matches are ranked: name prefix, word prefix, substring, letters in
+// order (e.g. "chem bro"), and finally a one-letter typo in a word.
+
+export interface SearchResult {
+  event: FestivalEvent;
+  /** Lower is better */
+  score: number;
+}
+
+const MAX_RESULTS = 8;
+/** Queries shorter than this only match prefixes / substrings */
+const MIN_FUZZY_LENGTH = 3;
+const MIN_TYPO_LENGTH = 4;
+
+/** Letters of `query` appear in order in `text`; returns the gaps or -1 */
+function subsequenceGaps(query: string, text: string): number {
+  let gaps = 0;
+  let position = -1;
+  for (const char of query) {
+    if (char === ' ') continue;
+    const next = text.indexOf(char, position + 1);
+    if (next === -1) return -1;
+    if (position !== -1) gaps += next - position - 1;
+    position = next;
+  }
+  return gaps;
+}
+
+/** Whether `a` and `b` differ by at most one edit (or swapped letters) */
+function withinOneEdit(a: string, b: string): boolean {
+  if (Math.abs(a.length - b.length) > 1) return false;
+  let i = 0;
+  let j = 0;
+  let edits = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      i++;
+      j++;
+      continue;
+    }
+    if (++edits > 1) return false;
+    if (a.length === b.length && a[i] === b[j + 1] && a[i + 1] === b[j]) {
+      i += 2;
+      j += 2;
+    } else if (a.length > b.length) i++;
+    else if (a.length < b.length) j++;
+    else {
+      i++;
+      j++;
+    }
+  }
+  return edits + (a.length - i) + (b.length - j) <= 1;
+}
+
+function scoreMatch(query: string, name: string): number | null {
+  if (name.startsWith(query)) return 0;
+
+  const words = name.split(/[^a-z0-9]+/).filter(Boolean);
+  if (words.some((w) => w.startsWith(query))) return 1;
+  if (name.includes(query)) return 2;
+
+  if (query.length >= MIN_FUZZY_LENGTH) {
+    const gaps = subsequenceGaps(query, name);
+    if (gaps !== -1 && gaps <= query.length * 2) return 3 + gaps / 100;
+  }
+
+  if (query.length >= MIN_TYPO_LENGTH) {
+    // Compare against whole words and same-length word prefixes
+    const typo = words.some(
+      (w) =>
+        withinOneEdit(query, w) ||
+        withinOneEdit(query, w.slice(0, query.length))
+    );
+    if (typo) return 4;
+  }
+
+  return null;
+}
+
+export function searchEvents(
+  events: FestivalEvent[],
+  query: string,
+  limit = MAX_RESULTS
+): SearchResult[] {
+  const folded = foldText(query).trim().replace(/\s+/g, ' ');
+  if (!folded) return [];
+
+  const results: SearchResult[] = [];
+  for (const event of events) {
+    const score = scoreMatch(folded, foldText(event.artist));
+    if (score !== null) results.push({ event, score });
+  }
+
+  return results
+    .sort(
+      (a, b) =>
+        a.score - b.score ||
+        a.event.startAt.getTime() - b.event.startAt.getTime()
+    )
+    .slice(0, limit);
+}
@@ -0,0 +1,216 @@
+import { FESTIVAL } from './festival';
+
+// ─── Time math ─────────────────────────────────────────────────────
+// Every conversion goes through Intl with an IANA zone instead of a
+// hand-written UTC offset. Grid positions are always computed in the
+// festival's zone; the "my timezone" mode only changes the labels.
+
+export const FESTIVAL_TIMEZONE = FESTIVAL.timezone;
+
+/** Local minute where the grid starts (14:00 = 840) */
+export const GRID_START_MINUTES = FESTIVAL.gridStartHour * 60;
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MINUTES = 24 * 60;
+
+interface ZonedParts {
+  year: number;
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+}
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function getZonedParts(date: Date, timeZone: string): ZonedParts {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+    });
+    formatters.set(timeZone, formatter);
+  }
+
+  const parts: Record<string, number> = {};
+  for (const { type, value } of formatter.formatToParts(date)) {
+    if (type !== 'literal') parts[type] = Number(value);
+  }
+  return {
+    year: parts.year,
+    month: parts.month,
+    day: parts.day,
+    hour: parts.hour % 24,
+    minute: parts.minute,
+  };
+}
+
+function pad(n: number): string {
+  return n.toString().padStart(2, '0');
+}
+
+/** Offset of `timeZone` from UTC at the given instant, in minutes */
+export function getOffsetMinutes(date: Date, timeZone: string): number {
+  const p = getZonedParts(date, timeZone);
+  const wallAsUTC = Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute);
+  const instant = Math.floor(date.getTime() / MINUTE_MS) * MINUTE_MS;
+  return (wallAsUTC - instant) / MINUTE_MS;
+}
+
+/** Wall-clock time (HH:MM) of an instant in the given zone */
+export function formatClock(
+  date: Date,
+  timeZone: string = FESTIVAL_TIMEZONE
+): string {
+  const { hour, minute } = getZonedParts(date, timeZone);
+  return `${pad(hour)}:${pad(minute)}`;
+}
+
+/** Wall-clock date and time in the given zone, e.g. '2026-02-14 20:30' */
+export function formatDateTime(
+  date: Date,
+  timeZone: string = FESTIVAL_TIMEZONE
+): string {
+  const p = getZonedParts(date, timeZone);
+  return `${p.year}-${pad(p.month)}-${pad(p.day)} ${pad(p.hour)}:${pad(p.minute)}`;
+}
+
+/**
+ * Minutes since grid start on the festival night. Times before the
+ * grid start hour (00:00-06:00) belong to the previous night and are
+ * treated as 24:00-30:00 so they render at the bottom of the grid.
+ */
+export function toGridMinutes(date: Date): number {
+  const { hour, minute } = getZonedParts(date, FESTIVAL_TIMEZONE);
+  let totalMinutes = hour * 60 + minute;
+  if (totalMinutes < GRID_START_MINUTES) {
+    totalMinutes += DAY_MINUTES;
+  }
+  return totalMinutes - GRID_START_MINUTES;
+}
+
+/** Calendar date (YYYY-MM-DD) of an instant in the festival's zone */
+export function getFestivalDate(date: Date): string {
+  const { year, month, day } = getZonedParts(date, FESTIVAL_TIMEZONE);
+  return `${year}-${pad(month)}-${pad(day)}`;
+}
+
+/** Calendar date (YYYY-MM-DD) of the festival night an instant belongs to */
+export function getFestivalNightDate(date: Date): string {
+  return getFestivalDate(
+    new Date(date.getTime() - GRID_START_MINUTES * MINUTE_MS)
+  );
+}
+
+/**
+ * Instant of a wall-clock time in `timeZone` (`month` is 1-12; fields
+ * may overflow like in Date.UTC, e.g. minute 1500)
+ */
+export function zonedTimeToDate(
+  year: number,
+  month: number,
+  day: number,
+  hour: number,
+  minute: number,
+  timeZone: string = FESTIVAL_TIMEZONE
+): Date {
+  const wallAsUTC = Date.UTC(year, month - 1, day, hour, minute);
+
+  // Two passes so the offset is the one in effect at the target instant
+  let offset = getOffsetMinutes(new Date(wallAsUTC), timeZone);
+  offset = getOffsetMinutes(new Date(wallAsUTC - offset * MINUTE_MS), timeZone);
+  return new Date(wallAsUTC - offset * MINUTE_MS);
+}
+
+/** Instant of a grid position on a festival night (`nightDate` = YYYY-MM-DD) */
+export function gridMinutesToDate(
+  nightDate: string,
+  gridMinutes: number
+): Date {
+  const [year, month, day] = nightDate.split('-').map(Number);
+  return zonedTimeToDate(year, month, day, 0, GRID_START_MINUTES + gridMinutes);
+}
+
+/**
+ * Parses an ISO date-time. Without an offset (`2026-02-14T22:30`) it is
+ * read as festival wall-clock time. Returns null when invalid.
+ */
+export function parseFestivalDateTime(value: string): Date | null {
+  const wall = /^(\d{4}-\d{2}-\d{2})T(\d{2}):(\d{2})$/.exec(value);
+  if (wall) {
+    const [, date, hour, minute] = wall;
+    const minutes = Number(hour) * 60 + Number(minute);
+    return gridMinutesToDate(date, minutes - GRID_START_MINUTES);
+  }
+  const time = Date.parse(value);
+  return Number.isNaN(time) ? null : new Date(time);
+}
+
+/** Label (HH:MM) for a grid position, e.g. hour marks on the time axis */
+export function formatGridTime(
+  nightDate: string,
+  gridMinutes: number,
+  timeZone: string = FESTIVAL_TIMEZONE
+): string {
+  return formatClock(gridMinutesToDate(nightDate, gridMinutes), timeZone);
+}
+
+// ─── Viewer timezone ("show in my timezone") ───────────────────────
+
+export type TimeDisplayMode = 'festival' | 'local';
+
+const TIME_DISPLAY_MODE_KEY = 'time-display-mode';
+
+export function getViewerTimeZone(): string {
+  try {
+    return (
+      Intl.DateTimeFormat().resolvedOptions().timeZone || FESTIVAL_TIMEZONE
+    );
+  } catch {
+    return FESTIVAL_TIMEZONE;
+  }
+}
+
+/** Whether the viewer's clock differs from the festival's on that night */
+export function viewerTimeZoneDiffers(nightDate: string): boolean {
+  const date = gridMinutesToDate(nightDate, 0);
+  return (
+    getOffsetMinutes(date, getViewerTimeZone()) !==
+    getOffsetMinutes(date, FESTIVAL_TIMEZONE)
+  );
+}
+
+/** Short zone name for labels, e.g. 'GMT+1' */
+export function getTimeZoneLabel(timeZone: string, date: Date): string {
+  const part = new Intl.DateTimeFormat('es-AR', {
+    timeZone,
+    timeZoneName: 'short',
+  })
+    .formatToParts(date)
+    .find((p) => p.type === 'timeZoneName');
+  return part?.value ?? timeZone;
+}
+
+export function getTimeDisplayModePreference(): TimeDisplayMode {
+  try {
+    return localStorage.getItem(TIME_DISPLAY_MODE_KEY) === 'local'
+      ? 'local'
+      : 'festival';
+  } catch {
+    return 'festival';
+  }
+}
+
+export function setTimeDisplayModePreference(mode: TimeDisplayMode) {
+  try {
+    localStorage.setItem(TIME_DISPLAY_MODE_KEY, mode);
+  } catch {
+    // Storage disabled: the preference only lasts for this visit
+  }
+}
@@ -1,3 +1,48 @@
+// ─── Festival configuration ────────────────────────────────────────
+
+export interface FestivalDay {
+  day: number;
+  /** Tab label, e.g. 'Sábado 14' */
+  label: string;
+  /** Local calendar date (YYYY-MM-DD) */
+  date: string;
+}
+
+export interface FestivalConfig {
+  /** Plain festival name, used in share texts and calendar titles */
+  name: string;
+  /** Name with trademark, used in page titles and ICS summaries */
+  brandName: string;
+  edition: string;
+  /** Base name for downloaded files (ICS, images) */
+  slug: string;
+  /** Human-readable dates for the header, e.g. '14 y 15 de Febrero 2026' */
+  datesLabel: string;
+  location: string;
+  officialUrl: string;
+  siteUrl: string;
+  /** IANA timezone of the venue; all time math goes through it */
+  timezone: string;
+  /** Local hour where the grid starts; earlier times belong to the previous night */
+  gridStartHour: number;
+  days: FestivalDay[];
+  /** Stage display order; unknown stages go last */
+  stageOrder: string[];
+  walkingTimes: WalkingTimes;
+}
+
+/** Minutes needed to walk between stages (symmetric; same stage = 0) */
+export interface WalkingTimes {
+  /** Used for any pair not listed in `between` */
+  defaultMinutes: number;
+  between: { stages: [string, string]; minutes: number }[];
+}
+
+// ─── Events ────────────────────────────────────────────────────────
+
+/** Whether a time was published by the organizers or estimated by us */
+export type TimeConfidence = 'confirmed' | 'estimated';
+
 export interface RawEvent {
   id: string;
   artist: string;
@@ -5,6 +50,28 @@ export interface RawEvent {
   stage: string;
   startAt: string;
   endAt: string;
+  /** Defaults to 'confirmed': the organizers publish start times */
+  startConfidence?: TimeConfidence;
+  /** Defaults to 'estimated': end times are derived (see FAQ) */
+  endConfidence?: TimeConfidence;
+}
+
+// ─── Artist metadata (artists.json) ────────────────────────────────
+
+export interface ArtistLinks {
+  spotify?: string;
+  youtube?: string;
+  instagram?: string;
+}
+
+export interface ArtistInfo {
+  genres?: string[];
+  country?: string;
+  /** A couple of sentences, in Spanish */
+  bio?: string;
+  /** Path of an image in public/, e.g. '/artists/divididos.webp' */
+  image?: string;
+  links?: ArtistLinks;
 }
 
 export interface FestivalEvent {
@@ -20,6 +87,10 @@ export interface FestivalEvent {
   endMinutes: number;
   /** Duration in minutes */
   duration: number;
+  startConfidence: TimeConfidence;
+  endConfidence: TimeConfidence;
+  /** Only for artists listed in artists.json */
+  info?: ArtistInfo;
 }
 
 export interface StageColumn {
@@ -36,6 +107,150 @@ export interface DaySchedule {
   endMinute: number;
 }
 
+// ─── Agenda conflicts ──────────────────────────────────────────────
+
+/**
+ * 'overlap': the shows overlap in time.
+ * 'tight': they don't overlap, but the gap is shorter than the walk.
+ */
+export type ConflictKind = 'overlap' | 'tight';
+
+export interface Conflict {
+  kind: ConflictKind;
+  /** The show that starts first */
+  first: FestivalEvent;
+  second: FestivalEvent;
+  /** Minutes between the end of `first` and the start of `second` (negative when overlapping) */
+  gapMinutes: number;
+  walkMinutes: number;
+  /** True when the clash depends on an estimated time */
+  estimated: boolean;
+}
+
+// ─── Agenda ────────────────────────────────────────────────────────
+
+/** How much the user wants to see a selected show */
+export type AgendaTier = 'must' | 'want' | 'maybe';
+
+/** Selected event ids and their tier */
+export type Agenda = Map<string, AgendaTier>;
+
+// ─── Itinerary planner ─────────────────────────────────────────────
+
+export interface DroppedShow {
+  event: FestivalEvent;
+  /** Clashes with shows that made it into the itinerary */
+  conflicts: Conflict[];
+}
+
+export interface Itinerary {
+  /** Kept shows, in chronological order */
+  kept: FestivalEvent[];
+  dropped: DroppedShow[];
+}
+
+// ─── Group view ────────────────────────────────────────────────────
+
+/** A friend whose shared agenda is overlaid on the grid */
+export interface GroupMember {
+  name: string;
+  agenda: Agenda;
+}
+
+/** A member going to a given show, as shown on the grid */
+export interface GroupAttendee {
+  name: string;
+  color: string;
+}
+
+// ─── Live mode ─────────────────────────────────────────────────────
+
+/** What a stage is playing at a given instant */
+export interface StageNow {
+  stage: string;
+  /** Set on stage right now, if any */
+  current: FestivalEvent | null;
+  /** Next set on that stage */
+  next: FestivalEvent | null;
+}
+
+// ─── Show reminders ────────────────────────────────────────────────
+
+export interface ReminderSettings {
+  enabled: boolean;
+  /** Minutes before the start of each show */
+  leadMinutes: number;
+}
+
+/** A notification to show before a selected set (sent to the service worker) */
+export interface Reminder {
+  /** Notification tag, one per event so rescheduling replaces it */
+  tag: string;
+  eventId: string;
+  title: string;
+  body: string;
+  /** When to notify (epoch ms) */
+  at: number;
+  /** Show start (epoch ms); reminders for shows already on are dropped */
+  startsAt: number;
+  /** Deep link opened when the notification is tapped */
+  url: string;
+}
+
+// ─── Agenda image ──────────────────────────────────────────────────
+
+/**
+ * Layout of the shareable agenda image: 'stages' groups by day and
+ * stage (any height), 'night' is a chronological 9:16 story, 'square'
+ * a chronological 1:1 post and 'grid' a 9:16 mini timetable.
+ */
+export type AgendaImageTemplate = 'stages' | 'night' | 'square' | 'grid';
+
+export interface AgendaImageInput {
+  template: AgendaImageTemplate;
+  events: FestivalEvent[];
+  /** Priority tier of each selected event */
+  tiers?: Agenda;
+  schedules: ScheduleInfo[];
+  timeZone: string;
+}
+
+/** Drawing size in CSS pixels; the PNG is `scale` times larger */
+export interface AgendaImageSize {
+  width: number;
+  height: number;
+  scale: number;
+}
+
+// ─── Lineup versions / changelog ───────────────────────────────────
+
+export type LineupChangeType = 'added' | 'removed' | 'moved';
+
+export interface LineupSlot {
+  day: number;
+  stage: string;
+  startAt: string;
+  endAt: string;
+}
+
+export interface LineupChange extends LineupSlot {
+  type: LineupChangeType;
+  id: string;
+  artist: string;
+  /** Slot before the change, only for 'moved' */
+  previous?: LineupSlot;
+}
+
+/** One published version of data.json (entries live in changelog.json) */
+export interface LineupRelease {
+  version: number;
+  /** YYYY-MM-DD */
+  publishedAt: string;
+  notes?: string;
+  /** Changes relative to the previous version */
+  changes: LineupChange[];
+}
+
 // ─── Serialized types (for Astro → React hydration) ────────────────
 
 export interface SerializedEvent {
@@ -48,6 +263,9 @@ export interface SerializedEvent {
   startMinutes: number;
   endMinutes: number;
   duration: number;
+  startConfidence: TimeConfidence;
+  endConfidence: TimeConfidence;
+  info?: ArtistInfo;
 }
 
 export interface SerializedSchedule {
@@ -1,11 +1,80 @@
+import type { Agenda, AgendaTier } from './types';
+import {
+  decodeAgenda,
+  encodeAgenda,
+  getAgendaCodeVersion,
+} from './agenda-code';
+import { parseFestivalDateTime } from './time';
+
 // ─── URL State helpers ─────────────────────────────────────────────
-// Read/write selected artist IDs and view mode from URL query params
+// Read/write the agenda, view mode and filters from URL query params.
+// The agenda is written as a compact code in `a` (see ./agenda-code.ts). Older
+// links are still read: `ids` lists every selected event, `must` and
+// `maybe` list the ids in those tiers (the rest are 'want') and `v` is
+// the lineup version.
+
+const AGENDA_PARAM = 'a';
+const TIER_PARAMS: Exclude<AgendaTier, 'want'>[] = ['must', 'maybe'];
+const LEGACY_PARAMS = ['ids', 'v', ...TIER_PARAMS];
+
+function parseList(value: string | null): string[] {
+  return value ? value.split(',').filter(Boolean) : [];
+}
+
+function readLegacyAgendaParams(params: URLSearchParams): Agenda {
+  const agenda: Agenda = new Map();
+  for (const id of parseList(params.get('ids'))) {
+    agenda.set(id, 'want');
+  }
+  for (const tier of TIER_PARAMS) {
+    for (const id of parseList(params.get(tier))) {
+      if (agenda.has(id)) agenda.set(id, tier);
+    }
+  }
+  return agenda;
+}
+
+/**
+ * Agenda encoded in a set of query params (also used for pasted links).
+ * `eventIds` are the ids of the current lineup.
+ */
+export function readAgendaParams(
+  params: URLSearchParams,
+  eventIds: string[]
+): Agenda {
+  const code = params.get(AGENDA_PARAM);
+  const agenda = code ? decodeAgenda(code, eventIds) : null;
+  return agenda ?? readLegacyAgendaParams(params);
+}
+
+export function writeAgendaParams(
+  params: URLSearchParams,
+  agenda: Agenda,
+  eventIds: string[]
+) {
+  for (const key of LEGACY_PARAMS) params.delete(key);
+  if (agenda.size === 0) {
+    params.delete(AGENDA_PARAM);
+  } else {
+    params.set(AGENDA_PARAM, encodeAgenda(agenda, eventIds));
+  }
+}
+
+export function getAgendaFromURL(eventIds: string[]): Agenda {
+  return readAgendaParams(
+    new URLSearchParams(window.location.search),
+    eventIds
+  );
+}
 
-export function getSelectedIdsFromURL(): Set<string> {
+/** Lineup version the link was created with, if any */
+export function getDataVersionFromURL(): number | null {
   const params = new URLSearchParams(window.location.search);
-  const ids = params.get('ids');
-  if (!ids) return new Set();
-  return new Set(ids.split(',').filter(Boolean));
+  const code = params.get(AGENDA_PARAM);
+  const version = code ? getAgendaCodeVersion(code) : Number(params.get('v'));
+  return version !== null && Number.isInteger(version) && version > 0
+    ? version
+    : null;
 }
 
 export function isReadOnlyFromURL(): boolean {
@@ -18,26 +87,62 @@ export function isShowOnlySelectedFromURL(): boolean {
   return params.get('filter') === 'selected';
 }
 
+/** Genre filter (`genres` param, comma-separated genre slugs) */
+export function getGenresFromURL(): Set<string> {
+  const params = new URLSearchParams(window.location.search);
+  return new Set(parseList(params.get('genres')));
+}
+
+/**
+ * Simulated clock for testing the live mode, e.g. `?now=2026-02-14T22:30`
+ * (festival time) or any ISO date with an offset
+ */
+export function getSimulatedNowFromURL(): Date | null {
+  const value = new URLSearchParams(window.location.search).get('now');
+  return value ? parseFestivalDateTime(value) : null;
+}
+
+/** Show to jump to on load (`show` param, set by reminder notifications) */
+export function getShowFromURL(): string | null {
+  return new URLSearchParams(window.location.search).get('show');
+}
+
+/** Show to add to the agenda on load (`add` param, set by the artist pages) */
+export function getAddFromURL(): string | null {
+  return new URLSearchParams(window.location.search).get('add');
+}
+
+/** Link to the app that adds a show to the agenda (see getAddFromURL) */
+export function getAddToAgendaPath(eventId: string): string {
+  return `/?add=${encodeURIComponent(eventId)}`;
+}
+
 export function updateURL(
-  ids: Set<string>,
+  agenda: Agenda,
+  eventIds: string[],
   readOnly: boolean,
-  showOnlySelected: boolean
+  showOnlySelected: boolean,
+  genres: Set<string>
 ) {
   const url = new URL(window.location.href);
-  if (ids.size > 0) {
-    url.searchParams.set('ids', [...ids].join(','));
-  } else {
-    url.searchParams.delete('ids');
-  }
+  writeAgendaParams(url.searchParams, agenda, eventIds);
   if (readOnly) {
     url.searchParams.set('view', 'shared');
   } else {
     url.searchParams.delete('view');
   }
-  if (showOnlySelected && ids.size > 0) {
+  if (showOnlySelected && agenda.size > 0) {
     url.searchParams.set('filter', 'selected');
   } else {
     url.searchParams.delete('filter');
   }
+  if (genres.size > 0) {
+    url.searchParams.set('genres', [...genres].join(','));
+  } else {
+    url.searchParams.delete('genres');
+  }
+  // One-off: don't jump there (or add it) again on reload
+  url.searchParams.delete('show');
+  url.searchParams.delete('add');
   window.history.replaceState({}, '', url.toString());
 }
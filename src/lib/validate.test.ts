@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest';
+import type { RawEvent } from './types';
+import { validateRawEvents } from './validate';
+
+function set(id: string, startAt: string, endAt: string): RawEvent {
+  return {
+    id,
+    artist: `Artista ${id}`,
+    day: 1,
+    stage: 'Norte',
+    startAt: `2026-02-14T${startAt}:00Z`,
+    endAt: `2026-02-14T${endAt}:00Z`,
+  };
+}
+
+const overlaps = (events: RawEvent[]) =>
+  validateRawEvents(events).errors.filter((e) =>
+    e.message.startsWith('overlaps')
+  );
+
+describe('validateRawEvents', () => {
+  it('accepts back-to-back sets on the same stage', () => {
+    expect(
+      overlaps([set('1', '18:00', '19:00'), set('2', '19:00', '20:00')])
+    ).toEqual([]);
+  });
+
+  it('reports a long set overlapping sets that are not its neighbour', () => {
+    const issues = overlaps([
+      set('1', '18:00', '21:00'),
+      set('2', '18:30', '19:00'),
+      set('3', '20:00', '20:30'),
+    ]);
+    expect(issues.map((i) => i.eventId)).toEqual(['2', '3']);
+    for (const issue of issues) {
+      expect(issue.message).toContain('(id 1)');
+    }
+  });
+});
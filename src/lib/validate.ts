@@ -0,0 +1,354 @@
+import type { ArtistInfo, RawEvent, LineupRelease } from './types';
+import { FESTIVAL } from './festival';
+import { getChangesSince } from './changelog';
+import { getFestivalNightDate } from './time';
+import { getArtistSlug } from './artists';
+
+// ─── data.json validation ──────────────────────────────────────────
+// Runs at build time (see src/integrations/validate-data.ts). Errors
+// break the grid and fail the build; warnings are only printed.
+
+export type ValidationSeverity = 'error' | 'warning';
+
+export interface ValidationIssue {
+  severity: ValidationSeverity;
+  /** Event id, or the array index when the id itself is missing */
+  eventId: string;
+  artist: string;
+  message: string;
+}
+
+export interface ValidationReport {
+  errors: ValidationIssue[];
+  warnings: ValidationIssue[];
+}
+
+/** Sets shorter or longer than this (in minutes) are reported as warnings */
+const MIN_SET_MINUTES = 15;
+const MAX_SET_MINUTES = 180;
+
+function isValidDate(value: unknown): value is string {
+  return typeof value === 'string' && !Number.isNaN(Date.parse(value));
+}
+
+function describe(raw: Partial<RawEvent>, index: number) {
+  return {
+    eventId: typeof raw.id === 'string' && raw.id ? raw.id : `#${index}`,
+    artist: typeof raw.artist === 'string' ? raw.artist : '(no artist)',
+  };
+}
+
+export function validateRawEvents(data: unknown): ValidationReport {
+  const report: ValidationReport = { errors: [], warnings: [] };
+
+  if (!Array.isArray(data)) {
+    report.errors.push({
+      severity: 'error',
+      eventId: '-',
+      artist: '-',
+      message: 'data.json must contain an array of events',
+    });
+    return report;
+  }
+
+  const push = (
+    severity: ValidationSeverity,
+    raw: Partial<RawEvent>,
+    index: number,
+    message: string
+  ) => {
+    const issue = { severity, ...describe(raw, index), message };
+    (severity === 'error' ? report.errors : report.warnings).push(issue);
+  };
+
+  const seenIds = new Map<string, number>();
+  const validEvents: { raw: RawEvent; index: number }[] = [];
+
+  data.forEach((item: unknown, index) => {
+    const raw = (item ?? {}) as Partial<RawEvent>;
+    let wellFormed = true;
+
+    if (typeof raw.id !== 'string' || raw.id === '') {
+      push('error', raw, index, 'missing or non-string "id"');
+      wellFormed = false;
+    } else if (seenIds.has(raw.id)) {
+      push(
+        'error',
+        raw,
+        index,
+        `duplicate id (also used by entry #${seenIds.get(raw.id)})`
+      );
+    } else {
+      seenIds.set(raw.id, index);
+    }
+
+    if (typeof raw.artist !== 'string' || raw.artist.trim() === '') {
+      push('error', raw, index, 'missing or empty "artist"');
+      wellFormed = false;
+    }
+
+    if (typeof raw.stage !== 'string' || raw.stage === '') {
+      push('error', raw, index, 'missing "stage"');
+      wellFormed = false;
+    } else if (!FESTIVAL.stageOrder.includes(raw.stage)) {
+      push(
+        'error',
+        raw,
+        index,
+        `stage "${raw.stage}" is not listed in FESTIVAL.stageOrder`
+      );
+    }
+
+    const dayConfig = FESTIVAL.days.find((d) => d.day === raw.day);
+    if (!Number.isInteger(raw.day) || !dayConfig) {
+      push(
+        'error',
+        raw,
+        index,
+        `day ${JSON.stringify(raw.day)} is not one of the configured days (${FESTIVAL.days.map((d) => d.day).join(', ')})`
+      );
+      wellFormed = false;
+    }
+
+    if (!isValidDate(raw.startAt)) {
+      push('error', raw, index, `invalid "startAt": ${raw.startAt}`);
+      wellFormed = false;
+    }
+    if (!isValidDate(raw.endAt)) {
+      push('error', raw, index, `invalid "endAt": ${raw.endAt}`);
+      wellFormed = false;
+    }
+
+    for (const field of ['startConfidence', 'endConfidence'] as const) {
+      const value = raw[field];
+      if (
+        value !== undefined &&
+        value !== 'confirmed' &&
+        value !== 'estimated'
+      ) {
+        push(
+          'error',
+          raw,
+          index,
+          `"${field}" must be "confirmed" or "estimated", got ${JSON.stringify(value)}`
+        );
+      }
+    }
+
+    if (!wellFormed) return;
+    const event = raw as RawEvent;
+
+    const start = new Date(event.startAt);
+    const end = new Date(event.endAt);
+    const duration = (end.getTime() - start.getTime()) / 60000;
+
+    if (duration <= 0) {
+      push(
+        'error',
+        raw,
+        index,
+        `"endAt" (${event.endAt}) is not after "startAt" (${event.startAt})`
+      );
+    } else if (duration < MIN_SET_MINUTES) {
+      push('warning', raw, index, `unusually short set (${duration} min)`);
+    } else if (duration > MAX_SET_MINUTES) {
+      push('warning', raw, index, `unusually long set (${duration} min)`);
+    }
+
+    const nightDate = getFestivalNightDate(start);
+    if (dayConfig && nightDate !== dayConfig.date) {
+      push(
+        'error',
+        raw,
+        index,
+        `day ${event.day} is ${dayConfig.date}, but "startAt" falls on the night of ${nightDate}`
+      );
+    }
+
+    if (duration > 0) validEvents.push({ raw: event, index });
+  });
+
+  // Overlapping slots on the same stage and day
+  const byStage = new Map<string, { raw: RawEvent; index: number }[]>();
+  for (const entry of validEvents) {
+    const key = `${entry.raw.day}|${entry.raw.stage}`;
+    if (!byStage.has(key)) byStage.set(key, []);
+    byStage.get(key)!.push(entry);
+  }
+
+  for (const entries of byStage.values()) {
+    entries.sort(
+      (a, b) => Date.parse(a.raw.startAt) - Date.parse(b.raw.startAt)
+    );
+    // Compare against the set that ends last so far, not just the
+    // previous one: a long set can overlap several that follow it
+    let latest = entries[0].raw;
+    for (let i = 1; i < entries.length; i++) {
+      const { raw, index } = entries[i];
+      if (Date.parse(raw.startAt) < Date.parse(latest.endAt)) {
+        push(
+          'error',
+          raw,
+          index,
+          `overlaps with ${latest.artist} (id ${latest.id}) on stage ${raw.stage}`
+        );
+      }
+      if (Date.parse(raw.endAt) > Date.parse(latest.endAt)) latest = raw;
+    }
+  }
+
+  return report;
+}
+
+/**
+ * Checks changelog.json against data.json: versions must be increasing,
+ * and the net effect of all changes should match the current events.
+ */
+export function validateChangelog(
+  changelog: LineupRelease[],
+  events: RawEvent[]
+): ValidationReport {
+  const report: ValidationReport = { errors: [], warnings: [] };
+
+  changelog.forEach((release, index) => {
+    const previous = changelog[index - 1];
+    if (!Number.isInteger(release.version) || release.version < 1) {
+      report.errors.push({
+        severity: 'error',
+        eventId: '-',
+        artist: `changelog #${index}`,
+        message: `invalid version ${JSON.stringify(release.version)}`,
+      });
+    } else if (previous && release.version <= previous.version) {
+      report.errors.push({
+        severity: 'error',
+        eventId: '-',
+        artist: `changelog v${release.version}`,
+        message: `versions must be increasing (comes after v${previous.version})`,
+      });
+    }
+  });
+
+  const eventsById = new Map(events.map((e) => [e.id, e]));
+  for (const change of getChangesSince(changelog, 0)) {
+    const event = eventsById.get(change.id);
+    const issue = { severity: 'warning' as const, eventId: change.id };
+
+    if (change.type === 'removed') {
+      if (event) {
+        report.warnings.push({
+          ...issue,
+          artist: change.artist,
+          message: 'marked as removed in changelog.json but still in data.json',
+        });
+      }
+    } else if (!event) {
+      report.warnings.push({
+        ...issue,
+        artist: change.artist,
+        message: `marked as ${change.type} in changelog.json but missing from data.json`,
+      });
+    } else if (
+      event.stage !== change.stage ||
+      Date.parse(event.startAt) !== Date.parse(change.startAt)
+    ) {
+      report.warnings.push({
+        ...issue,
+        artist: event.artist,
+        message: `changelog.json says ${change.stage} at ${change.startAt}, data.json has ${event.stage} at ${event.startAt}`,
+      });
+    }
+  }
+
+  return report;
+}
+
+const ARTIST_LINK_KEYS = ['spotify', 'youtube', 'instagram'];
+
+function isHttpsUrl(value: unknown): boolean {
+  if (typeof value !== 'string') return false;
+  try {
+    return new URL(value).protocol === 'https:';
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Checks artists.json: keys must be slugs of artists in data.json and
+ * every field must have the right shape.
+ */
+export function validateArtists(
+  data: unknown,
+  events: RawEvent[]
+): ValidationReport {
+  const report: ValidationReport = { errors: [], warnings: [] };
+
+  if (typeof data !== 'object' || data === null || Array.isArray(data)) {
+    report.errors.push({
+      severity: 'error',
+      eventId: '-',
+      artist: '-',
+      message: 'artists.json must contain an object keyed by artist slug',
+    });
+    return report;
+  }
+
+  const slugs = new Set(events.map((e) => getArtistSlug(e.artist)));
+
+  for (const [slug, value] of Object.entries(data)) {
+    const info = (value ?? {}) as ArtistInfo;
+    const push = (severity: ValidationSeverity, message: string) => {
+      const issue = { severity, eventId: '-', artist: slug, message };
+      (severity === 'error' ? report.errors : report.warnings).push(issue);
+    };
+
+    if (!slugs.has(slug)) {
+      push(
+        'warning',
+        'artists.json entry does not match any artist in data.json'
+      );
+    }
+
+    if (
+      info.genres !== undefined &&
+      (!Array.isArray(info.genres) ||
+        info.genres.some((g) => typeof g !== 'string' || g.trim() === ''))
+    ) {
+      push('error', '"genres" must be an array of non-empty strings');
+    }
+
+    for (const field of ['country', 'bio'] as const) {
+      if (info[field] !== undefined && typeof info[field] !== 'string') {
+        push('error', `"${field}" must be a string`);
+      }
+    }
+
+    if (
+      info.image !== undefined &&
+      (typeof info.image !== 'string' || !info.image.startsWith('/'))
+    ) {
+      push(
+        'error',
+        '"image" must be a path in public/, e.g. "/artists/x.webp"'
+      );
+    }
+
+    for (const [key, url] of Object.entries(info.links ?? {})) {
+      if (!ARTIST_LINK_KEYS.includes(key)) {
+        push(
+          'error',
+          `unknown link "${key}" (use ${ARTIST_LINK_KEYS.join(', ')})`
+        );
+      } else if (!isHttpsUrl(url)) {
+        push('error', `"links.${key}" must be an https URL`);
+      }
+    }
+  }
+
+  return report;
+}
+
+export function formatValidationIssue(issue: ValidationIssue): string {
+  return `[id ${issue.eventId}] ${issue.artist}: ${issue.message}`;
+}
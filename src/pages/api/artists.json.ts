@@ -0,0 +1,8 @@
+import type { APIRoute } from 'astro';
+import { getDaySchedules } from '../../lib/data';
+import { getArtistsResponse, toJSONResponse } from '../../lib/api';
+
+// Every artist with their metadata and sets, see src/lib/api.ts
+
+export const GET: APIRoute = () =>
+  toJSONResponse(getArtistsResponse(getDaySchedules()));
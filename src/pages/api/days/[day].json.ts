@@ -0,0 +1,15 @@
+import type { APIRoute, GetStaticPaths } from 'astro';
+import { getDaySchedules } from '../../../lib/data';
+import { getDayResponse, toJSONResponse } from '../../../lib/api';
+import type { DaySchedule } from '../../../lib/types';
+
+// One festival day (/api/days/<n>.json), see src/lib/api.ts
+
+export const getStaticPaths = (() =>
+  getDaySchedules().map((schedule) => ({
+    params: { day: String(schedule.day) },
+    props: { schedule },
+  }))) satisfies GetStaticPaths;
+
+export const GET: APIRoute<{ schedule: DaySchedule }> = ({ props }) =>
+  toJSONResponse(getDayResponse(props.schedule));
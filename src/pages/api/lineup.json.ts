@@ -0,0 +1,8 @@
+import type { APIRoute } from 'astro';
+import { getDaySchedules } from '../../lib/data';
+import { getLineupResponse, toJSONResponse } from '../../lib/api';
+
+// Whole lineup by day and stage, see src/lib/api.ts for the shape
+
+export const GET: APIRoute = () =>
+  toJSONResponse(getLineupResponse(getDaySchedules()));
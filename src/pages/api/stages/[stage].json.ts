@@ -0,0 +1,19 @@
+import type { APIRoute, GetStaticPaths } from 'astro';
+import { getDaySchedules } from '../../../lib/data';
+import {
+  getApiStageNames,
+  getStageResponse,
+  toJSONResponse,
+} from '../../../lib/api';
+import { slugify } from '../../../lib/artists';
+
+// One stage across all days (/api/stages/<slug>.json), see src/lib/api.ts
+
+export const getStaticPaths = (() =>
+  getApiStageNames(getDaySchedules()).map((stage) => ({
+    params: { stage: slugify(stage) },
+    props: { stage },
+  }))) satisfies GetStaticPaths;
+
+export const GET: APIRoute<{ stage: string }> = ({ props }) =>
+  toJSONResponse(getStageResponse(getDaySchedules(), props.stage));
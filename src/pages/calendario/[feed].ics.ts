@@ -0,0 +1,27 @@
+import type { APIRoute, GetStaticPaths } from 'astro';
+import { getDaySchedules } from '../../lib/data';
+import {
+  getCalendarFeeds,
+  getFeedCalendarName,
+  getFeedTimestamp,
+} from '../../lib/feeds';
+import type { CalendarFeed } from '../../lib/feeds';
+import { generateICS } from '../../lib/ics';
+
+// Static .ics feeds (/calendario/<slug>.ics), see src/lib/feeds.ts
+
+export const getStaticPaths = (() =>
+  getCalendarFeeds(getDaySchedules()).map((feed) => ({
+    params: { feed: feed.slug },
+    props: { feed },
+  }))) satisfies GetStaticPaths;
+
+export const GET: APIRoute<{ feed: CalendarFeed }> = ({ props }) => {
+  const ics = generateICS(props.feed.events, {
+    calendarName: getFeedCalendarName(props.feed),
+    dtstamp: getFeedTimestamp(),
+  });
+  return new Response(ics, {
+    headers: { 'Content-Type': 'text/calendar; charset=utf-8' },
+  });
+};
@@ -0,0 +1,28 @@
+import { renderAgendaImage } from '../lib/agenda-image';
+import type { AgendaImageInput } from '../lib/types';
+
+// ─── Agenda image worker ───────────────────────────────────────────
+// Renders the agenda PNG off the main thread (see src/hooks/useAgendaImage.ts).
+
+export interface AgendaImageRequest {
+  id: number;
+  input: AgendaImageInput;
+}
+
+export type AgendaImageResponse =
+  | { id: number; blob: Blob }
+  | { id: number; error: string };
+
+self.addEventListener(
+  'message',
+  async (e: MessageEvent<AgendaImageRequest>) => {
+    const { id, input } = e.data;
+    let response: AgendaImageResponse;
+    try {
+      response = { id, blob: await renderAgendaImage(input) };
+    } catch (error) {
+      response = { id, error: String(error) };
+    }
+    self.postMessage(response);
+  }
+);